@@ -0,0 +1,365 @@
+import { parseArgs } from "node:util";
+import { openAsBlob } from "node:fs";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import fg from "fast-glob";
+import { CompressionSettings, DEFAULT_SETTINGS, SettingsPatch, mergeSettings } from "../lib/settings";
+import { CONVERSION_FORMATS, OutputFormat } from "../lib/formats";
+import { OptimizationResult, calculateCompressionRatio, optimizeImage } from "../lib/pipeline";
+import { createUniquePathResolver, formatFileSize, formatRatio, getOptimizedFileName, getPageFileName, stripExtension } from "../lib/files";
+import { AnimationChoice, formatAnimationSummary } from "../lib/animation";
+import { readPageCount } from "../lib/decode";
+import { QualitySearchMode, formatSearchSummary } from "../lib/quality";
+import { BudgetViolation, parseBudgetRules } from "../lib/budget";
+import { ReportInput, buildReport, getReportOutputs, hasReportFailures, toJUnitReport, toJsonReport } from "../lib/report";
+import { sharpBackend } from "../node/sharp-backend";
+
+const USAGE = `Usage: smollr [options] <files, directories or globs...>
+
+Options:
+  -o, --out <dir>          Write results here, mirroring the input folders
+                           (default: next to each input as <name>-optimized.<ext>)
+  -f, --format <format>    avif, webp, jpeg, png or auto (default: keep the source
+                           format; HEIC becomes JPEG, JPEG XL WebP, others PNG)
+  -q, --quality <0-1>      Encoder quality
+  -c, --config <file>      JSON settings file, same schema as the web app
+      --max-width <px>     Largest output width
+      --max-height <px>    Largest output height
+      --target-size <MB>   Shrink until each output fits this size
+      --search <mode>      Search each image's quality instead of using --quality:
+                           ssim (smallest file that keeps --min-ssim) or size
+                           (best quality that fits --target-size)
+      --min-ssim <0-1>     SSIM target for --search ssim and -f auto (default: 0.97)
+      --animation <mode>   What to do with animated GIF/WebP input when the format
+                           is avif, jpeg or png: animate (write animated WebP instead)
+                           or first-frame (default: fail the file)
+      --max-fps <n>        Merge animation frames shown faster than this rate
+  -b, --budget <rule>      Fail when an output is over budget, e.g. "*.jpg 200KB"
+                           or "hero-* 400KB @1920w" (repeatable; adds to the config's budgets)
+      --report <file>      Write a JSON report of every file, output and budget violation
+      --junit <file>       Write the same report as JUnit XML for CI
+  -j, --concurrency <n>    Images processed in parallel (default: 2)
+  -h, --help               Show this help`;
+
+const IMAGE_GLOB = '**/*.{png,jpg,jpeg,webp,avif,gif,svg,heic,heif,tif,tiff,bmp,ico,jxl}';
+
+// Results written next to their inputs, which a second run over the same folder must not pick up again
+const GENERATED_GLOB = '**/*-optimized.*';
+
+interface InputFile {
+  absolutePath: string;
+  // Path mirrored under --out
+  relativePath: string;
+  // Set for each page of a multi-page TIFF; relativePath then carries the page number
+  page?: number;
+  // Name the outputs are derived from; only differs from the input's when another input would write the same files
+  outputName?: string;
+}
+
+interface CliOptions {
+  settings: CompressionSettings;
+  targetFormat: OutputFormat | null;
+  animation?: AnimationChoice;
+  outDir: string | null;
+  concurrency: number;
+  reportPath: string | null;
+  junitPath: string | null;
+}
+
+interface FileReport {
+  input: InputFile;
+  originalBytes: number;
+  result?: OptimizationResult;
+  outputs: string[];
+  violations: BudgetViolation[];
+  error?: string;
+}
+
+const fail = (message: string): never => {
+  console.error(`smollr: ${message}\n\n${USAGE}`);
+  process.exit(2);
+};
+
+const parseNumber = (name: string, raw: string | undefined): number | undefined => {
+  if (raw === undefined) return undefined;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) fail(`--${name} must be a positive number`);
+  return value;
+};
+
+const parseFormat = (raw: string | undefined): OutputFormat | null => {
+  if (raw === undefined) return null;
+  const format = raw.toUpperCase();
+  if (format === 'AUTO') return 'AUTO';
+  return CONVERSION_FORMATS.find((candidate) => candidate === format) ?? fail(`unknown format "${raw}"`);
+};
+
+const parseAnimation = (raw: string | undefined): AnimationChoice | undefined => {
+  if (raw === undefined) return undefined;
+  if (raw === 'animate' || raw === 'first-frame') return raw;
+  return fail(`unknown animation mode "${raw}"`);
+};
+
+const parseSearch = (raw: string | undefined): QualitySearchMode | undefined => {
+  if (raw === undefined) return undefined;
+  if (raw === 'ssim' || raw === 'size') return raw;
+  return fail(`unknown search mode "${raw}"`);
+};
+
+const parseCli = async (argv: string[]): Promise<{ patterns: string[]; options: CliOptions }> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      quality: { type: 'string', short: 'q' },
+      config: { type: 'string', short: 'c' },
+      'max-width': { type: 'string' },
+      'max-height': { type: 'string' },
+      'target-size': { type: 'string' },
+      search: { type: 'string' },
+      'min-ssim': { type: 'string' },
+      animation: { type: 'string' },
+      'max-fps': { type: 'string' },
+      concurrency: { type: 'string', short: 'j' },
+      budget: { type: 'string', short: 'b', multiple: true },
+      report: { type: 'string' },
+      junit: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+  if (positionals.length === 0) fail('no input files given');
+
+  let settings = DEFAULT_SETTINGS;
+  if (values.config) {
+    const patch = JSON.parse(await readFile(values.config, 'utf8')) as SettingsPatch;
+    settings = mergeSettings(settings, patch);
+  }
+
+  const quality = parseNumber('quality', values.quality);
+  if (quality !== undefined && quality > 1) fail('--quality must be between 0 and 1');
+  const minSsim = parseNumber('min-ssim', values['min-ssim']);
+  if (minSsim !== undefined && minSsim > 1) fail('--min-ssim must be between 0 and 1');
+
+  settings = mergeSettings(settings, {
+    quality,
+    maxWidth: parseNumber('max-width', values['max-width']),
+    maxHeight: parseNumber('max-height', values['max-height']),
+    targetSizeMB: parseNumber('target-size', values['target-size']),
+    minSsim,
+    qualitySearch: parseSearch(values.search),
+    animation: { maxFps: parseNumber('max-fps', values['max-fps']) },
+  });
+
+  for (const raw of values.budget ?? []) {
+    const rules = parseBudgetRules(raw);
+    if (rules.length === 0) fail(`invalid budget "${raw}"`);
+    settings = { ...settings, budgets: [...settings.budgets, ...rules] };
+  }
+
+  return {
+    patterns: positionals,
+    options: {
+      settings,
+      targetFormat: parseFormat(values.format),
+      animation: parseAnimation(values.animation),
+      outDir: values.out ? path.resolve(values.out) : null,
+      concurrency: Math.round(parseNumber('concurrency', values.concurrency) ?? 2),
+      reportPath: values.report ? path.resolve(values.report) : null,
+      junitPath: values.junit ? path.resolve(values.junit) : null,
+    },
+  };
+};
+
+// Directories are searched recursively; anything else that is not a file is treated as a glob.
+// Searches skip earlier results, both in place and under --out; files named outright are always read
+const expandInputs = async (patterns: string[], outDir: string | null): Promise<InputFile[]> => {
+  const inputs = new Map<string, InputFile>();
+  const add = (absolutePath: string, base: string) => {
+    if (!inputs.has(absolutePath)) {
+      inputs.set(absolutePath, { absolutePath, relativePath: path.relative(base, absolutePath) });
+    }
+  };
+  const isOutput = (absolutePath: string) => outDir !== null && absolutePath.startsWith(outDir + path.sep);
+  const search = async (pattern: string, cwd?: string) =>
+    (await fg(pattern, { cwd, absolute: true, caseSensitiveMatch: false, ignore: [GENERATED_GLOB] }))
+      .map((match) => path.normalize(match))
+      .filter((match) => !isOutput(match));
+
+  for (const pattern of patterns) {
+    const info = await stat(pattern).catch(() => null);
+    if (info?.isDirectory()) {
+      const base = path.resolve(pattern);
+      (await search(IMAGE_GLOB, base)).forEach((match) => add(match, base));
+    } else if (info?.isFile()) {
+      const absolutePath = path.resolve(pattern);
+      add(absolutePath, path.dirname(absolutePath));
+    } else {
+      const base = path.resolve(fg.generateTasks(pattern)[0]?.base ?? '.');
+      (await search(pattern)).forEach((match) => add(match, base));
+    }
+  }
+
+  return [...inputs.values()];
+};
+
+// Every page of a multi-page TIFF is optimized and written as a file of its own
+const expandPages = async (inputs: InputFile[]): Promise<InputFile[]> => {
+  const expanded: InputFile[] = [];
+  for (const input of inputs) {
+    const count = await readPageCount(await openAsBlob(input.absolutePath));
+    if (count === 1) {
+      expanded.push(input);
+      continue;
+    }
+    for (let page = 0; page < count; page++) {
+      const relativePath = path.join(path.dirname(input.relativePath), getPageFileName(path.basename(input.relativePath), page));
+      expanded.push({ ...input, relativePath, page });
+    }
+  }
+  return expanded;
+};
+
+// "c.png" and "c.webp" would both write "c.webp" (or "c-optimized.webp"), so later inputs
+// sharing an output folder and name get a counter, in input order so reruns name them the same
+const assignOutputNames = (inputs: InputFile[], outDir: string | null): InputFile[] => {
+  const resolve = createUniquePathResolver();
+  return inputs.map((input) => {
+    const source = outDir ? input.relativePath : input.absolutePath;
+    return { ...input, outputName: path.basename(resolve(stripExtension(source))) + path.extname(source) };
+  });
+};
+
+const writeOutput = async (filePath: string, data: Blob | string) => {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, typeof data === 'string' ? data : Buffer.from(await data.arrayBuffer()));
+  return filePath;
+};
+
+const processFile = async (input: InputFile, { settings, targetFormat, animation, outDir }: CliOptions): Promise<FileReport> => {
+  const bytes = await readFile(input.absolutePath);
+  const report: FileReport = { input, originalBytes: bytes.length, outputs: [], violations: [] };
+
+  // The pipeline tells formats apart by their bytes and rejects anything it cannot read
+  const name = input.outputName ?? path.basename(input.relativePath);
+  const result = await optimizeImage(sharpBackend, new Blob([bytes]), name, { settings, targetFormat, animation, page: input.page });
+
+  // With --out the folder tree is mirrored and names stay clean; in place, a suffix avoids overwriting
+  const directory = outDir ? path.join(outDir, path.dirname(input.relativePath)) : path.dirname(input.absolutePath);
+  const mainName = outDir
+    ? `${stripExtension(name)}.${result.format.toLowerCase()}`
+    : getOptimizedFileName(name, result.format);
+
+  report.outputs.push(await writeOutput(path.join(directory, mainName), result.blob));
+  for (const variant of result.variants ?? []) {
+    report.outputs.push(await writeOutput(path.join(directory, variant.fileName), variant.blob));
+  }
+  if (result.responsiveMarkup) {
+    report.outputs.push(await writeOutput(path.join(directory, `${stripExtension(name)}-picture.html`), result.responsiveMarkup));
+  }
+
+  return { ...report, result };
+};
+
+const toReportInput = ({ input, originalBytes, result, outputs, error }: FileReport): ReportInput => ({
+  path: input.relativePath,
+  originalFormat: result?.originalFormat ?? '',
+  originalBytes,
+  // Written in the same order as the outputs: main file first, then the variants.
+  // Relative to the working directory, which reads better in CI logs than absolute paths
+  outputs: result
+    ? getReportOutputs('', result).map((output, index) => ({ ...output, fileName: path.relative('.', outputs[index]) }))
+    : [],
+  metrics: result?.metrics,
+  error,
+});
+
+const runAll = async <T, R>(items: T[], concurrency: number, run: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+};
+
+const printReport = (reports: FileReport[]) => {
+  const nameWidth = Math.max(...reports.map(({ input }) => input.relativePath.length));
+  let totalOriginal = 0;
+  let totalOptimized = 0;
+
+  for (const { input, originalBytes, result, violations, error } of reports) {
+    const label = input.relativePath.padEnd(nameWidth);
+    if (!result) {
+      console.error(`  ✗ ${label}  ${error}`);
+      continue;
+    }
+    for (const { rule, fileName, bytes } of violations) {
+      console.error(`  ✗ ${label}  ${path.basename(fileName)} is ${formatFileSize(bytes)}, over the "${rule}" budget`);
+    }
+    totalOriginal += originalBytes;
+    totalOptimized += result.blob.size;
+    const formats = result.isConverted ? `${result.originalFormat} → ${result.format}` : result.format;
+    const frames = result.animation ? `  (${formatAnimationSummary(result.animation)})` : '';
+    const ssim = result.metrics ? `  SSIM ${result.metrics.ssim.toFixed(3)}` : '';
+    const search = result.search ? `  (${formatSearchSummary(result.search)})` : '';
+    console.log(
+      `  ✓ ${label}  ${formatFileSize(originalBytes).padStart(10)} → ${formatFileSize(result.blob.size).padEnd(10)}` +
+      `  ${formatRatio(result.compressionRatio).padStart(5)}${ssim}  ${formats}${frames}${search}`,
+    );
+  }
+
+  const succeeded = reports.filter(({ result }) => result).length;
+  if (succeeded > 0) {
+    const saved = totalOriginal - totalOptimized;
+    console.log(
+      `\n  ${succeeded} file${succeeded === 1 ? '' : 's'}: ${formatFileSize(totalOriginal)} → ${formatFileSize(totalOptimized)}, ` +
+      `saved ${formatFileSize(Math.max(0, saved))} (${formatRatio(calculateCompressionRatio(totalOriginal, totalOptimized))})`,
+    );
+  }
+};
+
+const main = async () => {
+  const { patterns, options } = await parseCli(process.argv.slice(2));
+  const inputs = assignOutputNames(await expandPages(await expandInputs(patterns, options.outDir)), options.outDir);
+  if (inputs.length === 0) fail('no images matched');
+
+  const reports = await runAll(inputs, options.concurrency, (input) =>
+    processFile(input, options).catch((error): FileReport => ({
+      input,
+      originalBytes: 0,
+      outputs: [],
+      violations: [],
+      error: error instanceof Error ? error.message : String(error),
+    })),
+  );
+
+  const report = buildReport(reports.map(toReportInput), options.settings.budgets);
+  report.files.forEach(({ violations }, index) => {
+    reports[index].violations = violations;
+  });
+
+  printReport(reports);
+  if (options.reportPath) await writeOutput(options.reportPath, toJsonReport(report));
+  if (options.junitPath) await writeOutput(options.junitPath, toJUnitReport(report));
+
+  // Errors and budget violations both fail the run, so CI can block the change
+  if (hasReportFailures(report)) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error(`smollr: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
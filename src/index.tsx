@@ -1,5 +1,13 @@
 import { StrictMode } from "react";
 import { createRoot } from "react-dom/client";
+import { registerSW } from "virtual:pwa-register";
+import "@fontsource/nunito/300.css";
+import "@fontsource/nunito/400.css";
+import "@fontsource/nunito/500.css";
+import "@fontsource/nunito/600.css";
+import "@fontsource/nunito/700.css";
+import "@fontsource/nunito/800.css";
+import "@fontsource/nunito/900.css";
 import { Finish } from "./screens/Finish";
 import { ThemeProvider } from "./components/ui/theme-provider";
 
@@ -10,3 +18,6 @@ createRoot(document.getElementById("app") as HTMLElement).render(
     </ThemeProvider>
   </StrictMode>
 );
+
+// A new service worker waits for every tab to close, so a running batch is never reloaded mid-way
+registerSW({ immediate: true });
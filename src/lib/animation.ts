@@ -0,0 +1,218 @@
+import { OutputFormat } from "./formats";
+import { readPngChunks, readWebpChunks } from "./metadata";
+
+export const GIF_MIME_TYPE = 'image/gif';
+
+export interface AnimationSettings {
+  // Frames closer together than 1/maxFps are merged into the one before; 0 keeps every frame
+  maxFps: number;
+}
+
+export const DEFAULT_ANIMATION_SETTINGS: AnimationSettings = {
+  maxFps: 0,
+};
+
+// How an animated source is handled; without a choice, a still-only target is refused
+export type AnimationChoice = 'animate' | 'first-frame';
+
+export interface AnimationInfo {
+  // Display time of each frame in milliseconds
+  delays: number[];
+  // Number of plays, 0 loops forever
+  loopCount: number;
+}
+
+export interface AnimationSummary {
+  frameCount: number;
+  // Milliseconds for one play
+  duration: number;
+}
+
+export interface AnimationFrame {
+  // Index of the source frame to show
+  index: number;
+  duration: number;
+}
+
+export interface EncodedFrame {
+  // A complete still WebP file the size of the canvas
+  data: Uint8Array;
+  duration: number;
+}
+
+const text = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const readUint24 = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const writeUint24 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+};
+
+const gifColorTableSize = (packed: number) => (packed & 0x80 ? 3 * (2 << (packed & 0x07)) : 0);
+
+const skipGifSubBlocks = (bytes: Uint8Array, offset: number) => {
+  while (offset < bytes.length && bytes[offset] !== 0) offset += bytes[offset] + 1;
+  return offset + 1;
+};
+
+const readGif = (bytes: Uint8Array): AnimationInfo => {
+  const delays: number[] = [];
+  // Without a NETSCAPE2.0 block a GIF plays once
+  let loopCount = 1;
+  let delay = 0;
+  let offset = 13 + gifColorTableSize(bytes[10]);
+
+  while (offset < bytes.length) {
+    const block = bytes[offset];
+    if (block === 0x2c) {
+      // Browsers show delays of 10ms or less as 100ms, so the output keeps that timing
+      delays.push(delay <= 10 ? 100 : delay);
+      delay = 0;
+      // Descriptor, local colour table, then the LZW code size before the data blocks
+      offset = skipGifSubBlocks(bytes, offset + 10 + gifColorTableSize(bytes[offset + 9]) + 1);
+    } else if (block === 0x21) {
+      const label = bytes[offset + 1];
+      if (label === 0xf9) {
+        delay = (bytes[offset + 4] | (bytes[offset + 5] << 8)) * 10;
+      } else if (label === 0xff && text(bytes, offset + 3, offset + 14) === 'NETSCAPE2.0') {
+        // The stored count is repeats after the first play
+        const repeats = bytes[offset + 16] | (bytes[offset + 17] << 8);
+        loopCount = repeats === 0 ? 0 : repeats + 1;
+      }
+      offset = skipGifSubBlocks(bytes, offset + 2);
+    } else {
+      // Trailer, or a truncated file
+      break;
+    }
+  }
+  return { delays, loopCount };
+};
+
+const readApng = (bytes: Uint8Array): AnimationInfo | null => {
+  const delays: number[] = [];
+  let loopCount: number | null = null;
+  for (const { type, data } of readPngChunks(bytes)) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (type === 'acTL') {
+      loopCount = view.getUint32(4);
+    } else if (type === 'fcTL') {
+      // A zero denominator means hundredths of a second
+      const denominator = view.getUint16(22) || 100;
+      delays.push(Math.round((view.getUint16(20) / denominator) * 1000));
+    }
+  }
+  // fcTL without acTL is not an animation a decoder will play
+  return loopCount === null ? null : { delays, loopCount };
+};
+
+const VP8X_ANIMATION = 0x02;
+const VP8X_ALPHA = 0x10;
+
+const readAnimatedWebp = (bytes: Uint8Array): AnimationInfo | null => {
+  const chunks = readWebpChunks(bytes);
+  if (chunks[0]?.type !== 'VP8X' || !(chunks[0].data[0] & VP8X_ANIMATION)) return null;
+  const anim = chunks.find(({ type }) => type === 'ANIM');
+  return {
+    delays: chunks.filter(({ type }) => type === 'ANMF').map(({ data }) => readUint24(data, 12)),
+    loopCount: anim ? anim.data[4] | (anim.data[5] << 8) : 0,
+  };
+};
+
+export const sniffGif = (bytes: Uint8Array): boolean => text(bytes, 0, 4) === 'GIF8';
+
+// Only files with more than one frame count as animated; an APNG with a single frame is a still
+export const parseAnimationInfo = (bytes: Uint8Array): AnimationInfo | null => {
+  try {
+    const info = sniffGif(bytes) ? readGif(bytes)
+      : bytes[0] === 0x89 && text(bytes, 1, 4) === 'PNG' ? readApng(bytes)
+      : text(bytes, 0, 4) === 'RIFF' && text(bytes, 8, 12) === 'WEBP' ? readAnimatedWebp(bytes)
+      : null;
+    return info && info.delays.length > 1 ? info : null;
+  } catch (error) {
+    console.error('Error reading animation frames:', error);
+    return null;
+  }
+};
+
+export const readAnimationInfo = async (file: Blob): Promise<AnimationInfo | null> =>
+  parseAnimationInfo(new Uint8Array(await file.arrayBuffer()));
+
+export const summarizeAnimation = ({ delays }: AnimationInfo): AnimationSummary => ({
+  frameCount: delays.length,
+  duration: delays.reduce((acc, delay) => acc + delay, 0),
+});
+
+export const formatAnimationSummary = ({ frameCount, duration }: AnimationSummary): string =>
+  `${frameCount} frames · ${(duration / 1000).toFixed(1)} s`;
+
+// Animated WebP is the only animated output the bundled encoders can write
+export const canKeepAnimation = (targetFormat: OutputFormat | null): boolean =>
+  targetFormat === null || targetFormat === 'AUTO' || targetFormat === 'WEBP';
+
+// Dropped frames hand their time to the frame before, so one play lasts exactly as long as the source
+export const selectFrames = ({ delays }: AnimationInfo, maxFps: number): AnimationFrame[] => {
+  const minDuration = maxFps > 0 ? 1000 / maxFps : 0;
+  const frames: AnimationFrame[] = [];
+  delays.forEach((delay, index) => {
+    const last = frames[frames.length - 1];
+    if (last && last.duration < minDuration) {
+      last.duration += delay;
+    } else {
+      frames.push({ index, duration: delay });
+    }
+  });
+  return frames;
+};
+
+const riffChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(8 + data.length + (data.length % 2));
+  out.set(new TextEncoder().encode(type));
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Every frame covers the whole canvas and replaces the one before, so no blending or disposal is needed
+export const muxAnimatedWebp = (frames: EncodedFrame[], width: number, height: number, loopCount: number): Uint8Array => {
+  let hasAlpha = false;
+  const frameChunks = frames.map(({ data, duration }) => {
+    const bitstream = readWebpChunks(data).filter(({ type }) => type === 'ALPH' || type === 'VP8 ' || type === 'VP8L');
+    hasAlpha ||= bitstream.some(({ type, data }) => type === 'ALPH' || (type === 'VP8L' && ((data[4] >> 4) & 1) === 1));
+
+    const header = new Uint8Array(16);
+    writeUint24(header, 6, width - 1);
+    writeUint24(header, 9, height - 1);
+    writeUint24(header, 12, Math.min(0xffffff, Math.round(duration)));
+    // Bit 1 turns alpha blending off
+    header[15] = 0x02;
+    return riffChunk('ANMF', concat([header, ...bitstream.map(({ type, data }) => riffChunk(type, data))]));
+  });
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = VP8X_ANIMATION | (hasAlpha ? VP8X_ALPHA : 0);
+  writeUint24(vp8x, 4, width - 1);
+  writeUint24(vp8x, 7, height - 1);
+
+  // Transparent background, then the loop count
+  const anim = new Uint8Array(6);
+  new DataView(anim.buffer).setUint16(4, Math.min(0xffff, loopCount), true);
+
+  const body = concat([riffChunk('VP8X', vp8x), riffChunk('ANIM', anim), ...frameChunks]);
+  const out = concat([new TextEncoder().encode('RIFFxxxxWEBP'), body]);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
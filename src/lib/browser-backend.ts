@@ -0,0 +1,49 @@
+import { encodeImage, getSupportedFormats } from "./encode";
+import { measureQuality } from "./compare";
+import { getSvgSize, isSvg } from "./svg";
+import { decodeToPng } from "./decode";
+import type { ImageBackend } from "./pipeline";
+
+// createImageBitmap cannot decode SVG blobs in every browser, and workers have no <img>,
+// so vectors are drawn on the main thread at the exact size and handed on as PNG
+const rasterizeSvg = async (source: Blob, width: number, height: number): Promise<Blob> => {
+  const url = URL.createObjectURL(source);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(image, 0, 0, width, height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to rasterize SVG'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const browserBackend: ImageBackend = {
+  getDimensions: async (source) => {
+    if (isSvg(source)) return getSvgSize(await source.text());
+    const bitmap = await createImageBitmap(source);
+    const { width, height } = bitmap;
+    bitmap.close();
+    return { width, height };
+  },
+  encode: async (source, options, control) => {
+    if (!isSvg(source)) return encodeImage(source, options, control);
+    const { width, height } = options.width && options.height
+      ? { width: options.width, height: options.height }
+      : getSvgSize(await source.text());
+    return encodeImage(await rasterizeSvg(source, width, height), options, control);
+  },
+  measureQuality,
+  getSupportedFormats,
+  decode: decodeToPng,
+};
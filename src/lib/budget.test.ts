@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { checkBudgets, formatBudgetRule, parseBudgetRules, parseByteSize } from "./budget";
+
+describe('parseByteSize', () => {
+  it('reads binary units and plain bytes', () => {
+    expect(parseByteSize('200KB')).toBe(200 * 1024);
+    expect(parseByteSize('1.5 mb')).toBe(1.5 * 1024 * 1024);
+    expect(parseByteSize('5000')).toBe(5000);
+    expect(parseByteSize('lots')).toBeNull();
+  });
+});
+
+describe('parseBudgetRules', () => {
+  it('reads one rule per line and skips invalid ones', () => {
+    expect(parseBudgetRules('*.jpg 200KB\nhero-* 400KB @1920w\nnonsense\n*.png 0KB')).toEqual([
+      { pattern: '*.jpg', maxBytes: 200 * 1024 },
+      { pattern: 'hero-*', maxBytes: 400 * 1024, width: 1920 },
+    ]);
+  });
+
+  it('round-trips through formatBudgetRule', () => {
+    for (const line of ['*.jpg 200KB', 'hero-* 1.5MB @1920w', 'icon.png 900B']) {
+      expect(formatBudgetRule(parseBudgetRules(line)[0])).toBe(line);
+    }
+  });
+});
+
+describe('checkBudgets', () => {
+  const outputs = [
+    { fileName: 'hero.avif', width: 1920, bytes: 500 * 1024 },
+    { fileName: 'hero-640w.avif', width: 640, bytes: 90 * 1024 },
+  ];
+
+  it('holds every output of a matching source to the limit', () => {
+    const [rule] = parseBudgetRules('hero.* 100KB');
+    expect(checkBudgets('images/hero.png', outputs, [rule])).toEqual([
+      { rule: 'hero.* 100KB', fileName: 'hero.avif', bytes: 500 * 1024, maxBytes: 100 * 1024 },
+    ]);
+  });
+
+  it('only checks the given width when the rule names one', () => {
+    const rules = parseBudgetRules('hero.* 50KB @640w');
+    expect(checkBudgets('hero.png', outputs, rules).map(({ fileName }) => fileName)).toEqual(['hero-640w.avif']);
+  });
+
+  it('matches names alone unless the pattern has a slash', () => {
+    expect(checkBudgets('images/hero.png', outputs, parseBudgetRules('other/*.png 1KB'))).toEqual([]);
+    expect(checkBudgets('images/hero.png', outputs, parseBudgetRules('images/** 1KB'))).toHaveLength(2);
+    expect(checkBudgets('images\\hero.png', outputs, parseBudgetRules('HERO.PNG 1KB'))).toHaveLength(2);
+  });
+});
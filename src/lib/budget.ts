@@ -0,0 +1,81 @@
+export interface BudgetRule {
+  // Glob matched against the file name, or against the relative path when it contains a slash
+  pattern: string;
+  maxBytes: number;
+  // Restricts the rule to outputs of exactly this width, e.g. the 1920w responsive variant
+  width?: number;
+}
+
+export interface BudgetOutput {
+  fileName: string;
+  width: number;
+  bytes: number;
+}
+
+export interface BudgetViolation {
+  rule: string;
+  fileName: string;
+  bytes: number;
+  maxBytes: number;
+}
+
+const UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+// "200KB", "1.5 MB", "5000" (bytes)
+export const parseByteSize = (value: string): number | null => {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?\s*$/i.exec(value);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * UNITS[(match[2] ?? 'b').toLowerCase()]);
+};
+
+const formatByteSize = (bytes: number): string => {
+  // Largest unit that still round-trips through two decimals
+  const unit = ['gb', 'mb', 'kb'].find((candidate) => bytes >= UNITS[candidate] && Number.isInteger((bytes * 100) / UNITS[candidate]));
+  return unit ? `${parseFloat((bytes / UNITS[unit]).toFixed(2))}${unit.toUpperCase()}` : `${bytes}B`;
+};
+
+// One rule per line: "<pattern> <size> [@<width>w]", e.g. "hero-* 400KB @1920w"
+export const parseBudgetRules = (text: string): BudgetRule[] =>
+  text.split('\n').flatMap((line) => {
+    const match = /^\s*(\S+)\s+(\d+(?:\.\d+)?\s*[a-z]*)(?:\s+@(\d+)w?)?\s*$/i.exec(line);
+    const maxBytes = match && parseByteSize(match[2]);
+    if (!match || !maxBytes) return [];
+    return [{ pattern: match[1], maxBytes, ...(match[3] && { width: parseInt(match[3], 10) }) }];
+  });
+
+export const formatBudgetRule = ({ pattern, maxBytes, width }: BudgetRule): string =>
+  `${pattern} ${formatByteSize(maxBytes)}${width ? ` @${width}w` : ''}`;
+
+const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === '**/') return '(?:.*/)?';
+      if (part === '**') return '.*';
+      if (part === '*') return '[^/]*';
+      if (part === '?') return '[^/]';
+      return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
+
+const matchesPattern = (pattern: string, path: string) => {
+  const subject = pattern.includes('/') ? path.replace(/\\/g, '/') : path.split(/[\\/]/).pop() ?? path;
+  return globToRegExp(pattern).test(subject);
+};
+
+// Rules match on the source path; every output of that source is then held to the limit
+export const checkBudgets = (path: string, outputs: BudgetOutput[], rules: BudgetRule[]): BudgetViolation[] =>
+  rules
+    .filter((rule) => matchesPattern(rule.pattern, path))
+    .flatMap((rule) =>
+      outputs
+        .filter((output) => (rule.width === undefined || output.width === rule.width) && output.bytes > rule.maxBytes)
+        .map((output) => ({
+          rule: formatBudgetRule(rule),
+          fileName: output.fileName,
+          bytes: output.bytes,
+          maxBytes: rule.maxBytes,
+        }))
+    );
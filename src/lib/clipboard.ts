@@ -0,0 +1,70 @@
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'image/x-icon': 'ico',
+};
+
+const getExtension = (type: string) => EXTENSIONS[type] ?? type.split('/')[1] ?? 'png';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Screenshots arrive as "image.png" or with no name at all, so every pasted image gets a dated one
+const getPastedName = (date: Date, index: number, type: string) =>
+  `pasted-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+  `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}` +
+  `${index > 0 ? `-${index + 1}` : ''}.${getExtension(type)}`;
+
+export const getPastedFiles = (data: DataTransfer, date = new Date()): File[] =>
+  Array.from(data.items)
+    .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+    .map((item) => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index) => new File([file], getPastedName(date, index, file.type), { type: file.type, lastModified: date.getTime() }));
+
+// Pasting into a text field should keep working as usual
+export const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement);
+
+// Browsers only promise image/png on the clipboard; anything else is checked before it is tried
+const canClipboardHold = (type: string): boolean =>
+  type === 'image/png' || ('supports' in ClipboardItem && ClipboardItem.supports(type));
+
+// createImageBitmap rejects SVG blobs in some browsers, so vectors go through an <img>
+const decode = async (blob: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  if (blob.type !== 'image/svg+xml') {
+    const bitmap = await createImageBitmap(blob);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height };
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return { source: image, width: image.naturalWidth || 512, height: image.naturalHeight || 512 };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const toPng = async (blob: Blob): Promise<Blob> => {
+  const { source, width, height } = await decode(blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(source, 0, 0, width, height);
+  if (source instanceof ImageBitmap) source.close();
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((png) => (png ? resolve(png) : reject(new Error('Failed to render image'))), 'image/png');
+  });
+};
+
+// Resolves with the type that was written. The PNG is handed over as a promise so Safari still
+// counts the write as part of the click that started it.
+export const copyImageToClipboard = async (blob: Blob): Promise<string> => {
+  const type = canClipboardHold(blob.type) ? blob.type : 'image/png';
+  await navigator.clipboard.write([new ClipboardItem({ [type]: type === blob.type ? blob : toPng(blob) })]);
+  return type;
+};
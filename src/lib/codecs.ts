@@ -0,0 +1,128 @@
+import { ConversionFormat, isLossless } from "./formats";
+
+export type EncoderEngine = 'wasm' | 'browser';
+
+export type ChromaSubsampling = '4:2:0' | '4:4:4';
+
+export interface JpegCodecSettings {
+  engine: EncoderEngine;
+  progressive: boolean;
+  chromaSubsampling: ChromaSubsampling;
+  trellis: boolean;
+}
+
+export interface WebpCodecSettings {
+  engine: EncoderEngine;
+  // 0 (fast) to 6 (smallest)
+  effort: number;
+  lossless: boolean;
+  sharpYuv: boolean;
+}
+
+export interface AvifCodecSettings {
+  engine: EncoderEngine;
+  // 0 (fast) to 10 (smallest)
+  effort: number;
+  chromaSubsampling: ChromaSubsampling;
+  lossless: boolean;
+}
+
+export interface PngCodecSettings {
+  engine: EncoderEngine;
+  // OxiPNG optimisation level, 0 to 6
+  effort: number;
+  quantize: boolean;
+  maxColors: number;
+  dithering: number;
+}
+
+export interface CodecSettings {
+  JPEG: JpegCodecSettings;
+  WEBP: WebpCodecSettings;
+  AVIF: AvifCodecSettings;
+  PNG: PngCodecSettings;
+}
+
+export const DEFAULT_CODEC_SETTINGS: CodecSettings = {
+  JPEG: { engine: 'wasm', progressive: true, chromaSubsampling: '4:2:0', trellis: true },
+  WEBP: { engine: 'wasm', effort: 4, lossless: false, sharpYuv: false },
+  AVIF: { engine: 'wasm', effort: 4, chromaSubsampling: '4:2:0', lossless: false },
+  PNG: { engine: 'wasm', effort: 2, quantize: false, maxColors: 256, dithering: 1 },
+};
+
+// Lossless encodes ignore the quality knob, so only resizing can shrink them further
+export const ignoresQuality = (format: ConversionFormat, codecs: CodecSettings): boolean => {
+  if (isLossless(format)) return true;
+  const codec = codecs[format];
+  return 'lossless' in codec && codec.engine === 'wasm' && codec.lossless;
+};
+
+const quantize = async (imageData: ImageData, { maxColors, dithering }: PngCodecSettings): Promise<ImageData> => {
+  const { default: init, ImageQuantizer } = await import('libimagequant-wasm/wasm/libimagequant_wasm.js');
+  await init();
+  const quantizer = new ImageQuantizer();
+  try {
+    quantizer.setMaxColors(maxColors);
+    const result = quantizer.quantizeImage(imageData.data, imageData.width, imageData.height);
+    try {
+      result.setDithering(dithering);
+      const pixels = result.remapImage(imageData.data, imageData.width, imageData.height);
+      return new ImageData(new Uint8ClampedArray(pixels), imageData.width, imageData.height);
+    } finally {
+      result.free();
+    }
+  } finally {
+    quantizer.free();
+  }
+};
+
+// Codecs are imported lazily so only the formats actually used get downloaded and compiled
+export const encodeWithWasm = async (
+  imageData: ImageData,
+  format: ConversionFormat,
+  quality: number,
+  codecs: CodecSettings,
+): Promise<ArrayBuffer> => {
+  switch (format) {
+    case 'JPEG': {
+      const { progressive, chromaSubsampling, trellis } = codecs.JPEG;
+      const { default: encode } = await import('@jsquash/jpeg/encode');
+      return encode(imageData, {
+        quality: Math.round(quality * 100),
+        progressive,
+        auto_subsample: false,
+        chroma_subsample: chromaSubsampling === '4:4:4' ? 1 : 2,
+        trellis_multipass: trellis,
+        trellis_opt_zero: trellis,
+        trellis_opt_table: trellis,
+      });
+    }
+    case 'WEBP': {
+      const { effort, lossless, sharpYuv } = codecs.WEBP;
+      const { default: encode } = await import('@jsquash/webp/encode');
+      return encode(imageData, {
+        quality: Math.round(quality * 100),
+        method: effort,
+        lossless: lossless ? 1 : 0,
+        use_sharp_yuv: sharpYuv ? 1 : 0,
+      });
+    }
+    case 'AVIF': {
+      const { effort, chromaSubsampling, lossless } = codecs.AVIF;
+      const { default: encode } = await import('@jsquash/avif/encode');
+      return encode(imageData, {
+        quality: Math.round(quality * 100),
+        // libavif speed runs the other way: 10 is fastest
+        speed: 10 - effort,
+        subsample: chromaSubsampling === '4:4:4' ? 3 : 1,
+        lossless,
+      });
+    }
+    case 'PNG': {
+      const { effort, quantize: shouldQuantize } = codecs.PNG;
+      const { default: optimise } = await import('@jsquash/oxipng/optimise');
+      const pixels = shouldQuantize ? await quantize(imageData, codecs.PNG) : imageData;
+      return optimise(pixels, { level: effort });
+    }
+  }
+};
@@ -0,0 +1,73 @@
+import { METRIC_SIZE, QualityMetrics, computeQualityMetrics, toLuma } from "./quality";
+
+// Differences are amplified so that subtle compression artifacts stay visible
+const AMPLIFY = 4;
+
+const toImageData = (bitmap: ImageBitmap, width: number, height: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+export const measureQuality = async (original: Blob, optimized: Blob): Promise<QualityMetrics> => {
+  const [a, b] = await Promise.all([createImageBitmap(original), createImageBitmap(optimized)]);
+  try {
+    const scale = Math.min(1, METRIC_SIZE / Math.max(b.width, b.height));
+    const width = Math.max(1, Math.round(b.width * scale));
+    const height = Math.max(1, Math.round(b.height * scale));
+    return computeQualityMetrics(toLuma(toImageData(a, width, height)), toLuma(toImageData(b, width, height)), width, height);
+  } finally {
+    a.close();
+    b.close();
+  }
+};
+
+// Maps 0..1 to black → blue → red → yellow
+const heatColor = (t: number): [number, number, number] => {
+  if (t < 1 / 3) return [0, 0, Math.round(t * 3 * 255)];
+  if (t < 2 / 3) return [Math.round((t - 1 / 3) * 3 * 255), 0, Math.round((2 / 3 - t) * 3 * 255)];
+  return [255, Math.round((t - 2 / 3) * 3 * 255), 0];
+};
+
+export const createDifferenceHeatmap = async (original: Blob, optimized: Blob): Promise<Blob> => {
+  const [a, b] = await Promise.all([createImageBitmap(original), createImageBitmap(optimized)]);
+  // Resized outputs are compared against the original scaled to the same size
+  const width = b.width;
+  const height = b.height;
+
+  try {
+    const before = toImageData(a, width, height).data;
+    const after = toImageData(b, width, height);
+    const out = after.data;
+
+    for (let i = 0; i < out.length; i += 4) {
+      const delta = Math.max(
+        Math.abs(before[i] - out[i]),
+        Math.abs(before[i + 1] - out[i + 1]),
+        Math.abs(before[i + 2] - out[i + 2]),
+        Math.abs(before[i + 3] - out[i + 3]),
+      );
+      const [r, g, bl] = heatColor(Math.min(1, (delta * AMPLIFY) / 255));
+      out[i] = r;
+      out[i + 1] = g;
+      out[i + 2] = bl;
+      out[i + 3] = 255;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(after, 0, 0);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render heatmap'))), 'image/png');
+    });
+  } finally {
+    a.close();
+    b.close();
+  }
+};
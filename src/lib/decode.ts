@@ -0,0 +1,335 @@
+/// <reference path="./libheif-js.d.ts" />
+import { zlibSync } from "fflate";
+import { CONVERSION_FORMATS, ConversionFormat, getMimeType, readFtypBrands, sniffFormat } from "./formats";
+import { GIF_MIME_TYPE, sniffGif } from "./animation";
+import { SVG_MIME_TYPE, sniffSvg } from "./svg";
+import { pngChunk } from "./metadata";
+import { SourceFile, getDirectory, getPageFileName, joinPath } from "./files";
+
+// Everything the pipeline reads. The last five have no encoder here and are decoded to pixels first.
+export type InputFormat = ConversionFormat | 'GIF' | 'SVG' | 'HEIC' | 'TIFF' | 'BMP' | 'ICO' | 'JXL';
+
+export const INPUT_FORMATS: InputFormat[] = [...CONVERSION_FORMATS, 'GIF', 'SVG', 'HEIC', 'TIFF', 'BMP', 'ICO', 'JXL'];
+
+export type DecodedFormat = Exclude<InputFormat, ConversionFormat | 'GIF' | 'SVG'>;
+
+const INPUT_MIME_TYPES: Record<Exclude<InputFormat, ConversionFormat>, string> = {
+  GIF: GIF_MIME_TYPE,
+  SVG: SVG_MIME_TYPE,
+  HEIC: 'image/heic',
+  TIFF: 'image/tiff',
+  BMP: 'image/bmp',
+  ICO: 'image/x-icon',
+  JXL: 'image/jxl',
+};
+
+// For file pickers; some systems report no MIME type for HEIC and JPEG XL
+export const INPUT_ACCEPT = 'image/*,.heic,.heif,.tif,.tiff,.bmp,.ico,.jxl';
+
+// Enough for every signature, and for SVG's root element after a prolog
+const SNIFF_BYTES = 1024;
+
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'];
+
+const BMP_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const JXL_CONTAINER = new Uint8Array([0, 0, 0, 0x0c, 0x4a, 0x58, 0x4c, 0x20, 0x0d, 0x0a, 0x87, 0x0a]);
+
+interface Pixels {
+  width: number;
+  height: number;
+  // RGBA, 8 bits per channel, rows top to bottom
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const startsWith = (bytes: Uint8Array, signature: Uint8Array) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// AVIF is checked first, since AVIF files may also list the generic HEIF brands
+export const sniffInputFormat = (bytes: Uint8Array): InputFormat | null => {
+  const format = sniffFormat(bytes);
+  if (format) return format;
+  if (sniffGif(bytes)) return 'GIF';
+  if (readFtypBrands(bytes).some((brand) => HEIF_BRANDS.includes(brand))) return 'HEIC';
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return 'TIFF';
+  if (ascii(bytes, 0, 2) === 'BM' && BMP_HEADER_SIZES.includes(bytes[14] | (bytes[15] << 8))) return 'BMP';
+  // Icons and cursors share the layout
+  if (bytes[0] === 0 && bytes[1] === 0 && (bytes[2] === 1 || bytes[2] === 2) && bytes[3] === 0 && (bytes[4] | bytes[5]) > 0) {
+    return 'ICO';
+  }
+  if ((bytes[0] === 0xff && bytes[1] === 0x0a) || startsWith(bytes, JXL_CONTAINER)) return 'JXL';
+  if (sniffSvg(bytes)) return 'SVG';
+  return null;
+};
+
+export const readInputFormat = async (file: Blob): Promise<InputFormat | null> =>
+  sniffInputFormat(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+
+const isConversionFormat = (format: InputFormat): format is ConversionFormat =>
+  CONVERSION_FORMATS.some((candidate) => candidate === format);
+
+export const getInputMimeType = (format: InputFormat): string =>
+  isConversionFormat(format) ? getMimeType(format) : INPUT_MIME_TYPES[format];
+
+// Retypes the blob from its bytes, so later MIME checks see what the file really is
+export const withInputType = (file: Blob, format: InputFormat): Blob => {
+  const type = getInputMimeType(format);
+  return file.type === type ? file : new Blob([file], { type });
+};
+
+export const needsDecoding = (format: InputFormat): format is DecodedFormat =>
+  format === 'HEIC' || format === 'TIFF' || format === 'BMP' || format === 'ICO' || format === 'JXL';
+
+// Where the source format cannot be written, keeping the format falls back to the closest output:
+// HEIC is nearly always a camera photo, JPEG XL may carry alpha, the rest are usually lossless
+export const getKeptFormat = (format: InputFormat): ConversionFormat =>
+  isConversionFormat(format) ? format : format === 'HEIC' ? 'JPEG' : format === 'JXL' ? 'WEBP' : 'PNG';
+
+// Files with no MIME type are let through to be sniffed; anything else has to claim to be an image
+export const mayBeImage = (file: Blob): boolean =>
+  file.type === '' || file.type === 'application/octet-stream' || file.type.startsWith('image/');
+
+export const getUnsupportedFormatMessage = (): string =>
+  `Unsupported file type; expected ${INPUT_FORMATS.slice(0, -1).join(', ')} or ${INPUT_FORMATS[INPUT_FORMATS.length - 1]}`;
+
+// Only an intermediate for the encoders, so it is compressed for speed rather than size
+const writeRgbaPng = ({ width, height, data }: Pixels): Uint8Array => {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  // 8 bits per channel, RGBA
+  header[8] = 8;
+  header[9] = 6;
+
+  // Every row starts with a filter type byte; 0 leaves the row as it is
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return concat([
+    PNG_SIGNATURE,
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibSync(raw, { level: 1 })),
+    pngChunk('IEND', new Uint8Array(0)),
+  ]);
+};
+
+// Scales a masked channel to 0-255; null when the mask is empty
+const createChannelReader = (mask: number) => {
+  if (mask === 0) return null;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  const max = mask >>> shift;
+  return (value: number) => Math.round((((value & mask) >>> shift) * 255) / max);
+};
+
+// Uncompressed and bit-field DIBs at every bit depth; RLE is rare enough to refuse.
+// Icons store the colour image and a 1-bit transparency mask stacked, so their header counts both.
+const decodeDib = (bytes: Uint8Array, start: number, pixelOffset: number | null, isIcon: boolean): Pixels => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = view.getUint32(start, true);
+  const isCore = headerSize === 12;
+  const width = isCore ? view.getUint16(start + 4, true) : view.getInt32(start + 4, true);
+  const storedHeight = isCore ? view.getInt16(start + 6, true) : view.getInt32(start + 8, true);
+  const bitCount = view.getUint16(start + (isCore ? 10 : 14), true);
+  const compression = isCore ? 0 : view.getUint32(start + 16, true);
+  const topDown = storedHeight < 0;
+  const height = Math.abs(storedHeight) / (isIcon ? 2 : 1);
+
+  // 3 is BI_BITFIELDS, 6 adds an alpha mask
+  if (compression !== 0 && compression !== 3 && compression !== 6) {
+    throw new Error('Compressed BMP files are not supported');
+  }
+  if (width <= 0 || height <= 0) throw new Error('BMP has no pixels');
+
+  // Masks follow a 40-byte header, or sit inside the larger ones
+  let masks = bitCount === 16 ? [0x7c00, 0x03e0, 0x001f, 0] : [0xff0000, 0xff00, 0xff, 0];
+  let maskBytes = 0;
+  if (compression !== 0) {
+    const maskCount = compression === 6 || headerSize >= 56 ? 4 : 3;
+    masks = Array.from({ length: 4 }, (_, index) => (index < maskCount ? view.getUint32(start + 40 + index * 4, true) : 0));
+    if (headerSize === 40) maskBytes = maskCount * 4;
+  }
+  const [red, green, blue, alpha] = masks.map(createChannelReader);
+
+  const paletteStart = start + headerSize + maskBytes;
+  const paletteEntrySize = isCore ? 3 : 4;
+  const paletteSize = bitCount <= 8 ? (isCore ? 0 : view.getUint32(start + 32, true)) || 1 << bitCount : 0;
+  const dataStart = pixelOffset ?? paletteStart + paletteSize * paletteEntrySize;
+  const rowSize = Math.ceil((bitCount * width) / 32) * 4;
+
+  const data = new Uint8Array(width * height * 4);
+  // 32-bit files without masks often leave the fourth byte at 0 for opaque pixels
+  let hasAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = dataStart + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let r: number, g: number, b: number, a = 255;
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const index = (bytes[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        const entry = paletteStart + index * paletteEntrySize;
+        [b, g, r] = [bytes[entry], bytes[entry + 1], bytes[entry + 2]];
+      } else if (bitCount === 24) {
+        const pixel = row + x * 3;
+        [b, g, r] = [bytes[pixel], bytes[pixel + 1], bytes[pixel + 2]];
+      } else {
+        const value = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        r = red?.(value) ?? 0;
+        g = green?.(value) ?? 0;
+        b = blue?.(value) ?? 0;
+        if (bitCount === 32 && compression === 0) a = value >>> 24;
+        else if (alpha) a = alpha(value);
+      }
+      hasAlpha ||= a !== 0;
+      data.set([r, g, b, a], out);
+    }
+  }
+
+  const hasAlphaChannel = bitCount === 32 && (compression === 0 || !!alpha);
+  if (hasAlphaChannel && !hasAlpha) {
+    for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  }
+
+  // Without alpha of their own, icons take transparency from the mask after the colour data
+  if (isIcon && !(hasAlphaChannel && hasAlpha)) {
+    const maskStart = dataStart + rowSize * height;
+    const maskRowSize = Math.ceil(width / 32) * 4;
+    for (let y = 0; y < height; y++) {
+      const row = maskStart + (height - 1 - y) * maskRowSize;
+      for (let x = 0; x < width; x++) {
+        if ((bytes[row + (x >> 3)] >> (7 - (x & 7))) & 1) data[(y * width + x) * 4 + 3] = 0;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
+
+const decodeBmp = (bytes: Uint8Array): Pixels =>
+  decodeDib(bytes, 14, new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(10, true), false);
+
+// The largest image in the icon wins; newer icons embed it as a PNG, which needs no decoding
+const decodeIco = (bytes: Uint8Array): Pixels | Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = Array.from({ length: view.getUint16(4, true) }, (_, index) => {
+    const entry = 6 + index * 16;
+    return {
+      // 0 stands for 256
+      area: (bytes[entry] || 256) * (bytes[entry + 1] || 256),
+      bitCount: view.getUint16(entry + 6, true),
+      size: view.getUint32(entry + 8, true),
+      offset: view.getUint32(entry + 12, true),
+    };
+  });
+  const best = entries.reduce((a, b) => (b.area > a.area || (b.area === a.area && b.bitCount > a.bitCount) ? b : a));
+  const image = bytes.subarray(best.offset, best.offset + best.size);
+  return startsWith(image, PNG_SIGNATURE) ? image : decodeDib(bytes, best.offset, null, true);
+};
+
+// utif2 is CommonJS that fills module.exports late, so only the default export survives ESM interop
+const loadUtif = async (): Promise<typeof import('utif2')> =>
+  ((await import('utif2')) as unknown as { default: typeof import('utif2') }).default;
+
+// Reduced-resolution copies (bit 0 of NewSubfileType) are previews, not pages
+const readTiffPages = async (buffer: ArrayBuffer) => {
+  const UTIF = await loadUtif();
+  return UTIF.decode(buffer).filter((ifd) => ifd.t256 && ifd.t257 && !(Number((ifd.t254 as number[] | undefined)?.[0] ?? 0) & 1));
+};
+
+const decodeTiff = async (buffer: ArrayBuffer, page: number): Promise<Pixels> => {
+  const UTIF = await loadUtif();
+  const ifd = (await readTiffPages(buffer))[page];
+  if (!ifd) throw new Error(`TIFF has no page ${page + 1}`);
+  UTIF.decodeImage(buffer, ifd);
+  return { width: ifd.width, height: ifd.height, data: UTIF.toRGBA8(ifd) };
+};
+
+let libHeif: Promise<import('libheif-js/libheif-wasm/libheif-bundle.mjs').LibHeif> | null = null;
+
+// Decodes the primary image, with the rotation and mirroring the file asks for already applied
+const decodeHeic = async (bytes: Uint8Array): Promise<Pixels> => {
+  libHeif ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs').then(({ default: create }) => create());
+  const lib = await libHeif;
+  const decoder = new lib.HeifDecoder();
+  const images = decoder.decode(bytes);
+  try {
+    const image = images.find((candidate) => candidate.is_primary()) ?? images[0];
+    if (!image) throw new Error('HEIF file contains no image');
+    const width = image.get_width();
+    const height = image.get_height();
+    const data = await new Promise<Uint8ClampedArray>((resolve, reject) => {
+      image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, (result) =>
+        result ? resolve(result.data) : reject(new Error('HEIF image could not be decoded')));
+    });
+    return { width, height, data };
+  } finally {
+    images.forEach((image) => image.free());
+    if (decoder.decoder) lib.heif_context_free(decoder.decoder);
+  }
+};
+
+const decodeJxl = async (buffer: ArrayBuffer): Promise<Pixels> => {
+  // Only the decoder; the package root also pulls in the encoders and their workers
+  const { default: decode } = await import('@jsquash/jxl/decode.js');
+  const { width, height, data } = await decode(buffer);
+  return { width, height, data };
+};
+
+// Turns a format without an encoder into a lossless PNG the backends can read
+export const decodeToPng = async (file: Blob, format: DecodedFormat, page = 0): Promise<Blob> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const decoded = format === 'HEIC' ? await decodeHeic(bytes)
+    : format === 'TIFF' ? await decodeTiff(buffer, page)
+    : format === 'BMP' ? decodeBmp(bytes)
+    : format === 'ICO' ? decodeIco(bytes)
+    : await decodeJxl(buffer);
+  return new Blob([decoded instanceof Uint8Array ? decoded : writeRgbaPng(decoded)], { type: getMimeType('PNG') });
+};
+
+// Only TIFF holds pages; an unreadable file counts as one page and fails later with a proper error
+export const readPageCount = async (file: Blob): Promise<number> => {
+  if ((await readInputFormat(file)) !== 'TIFF') return 1;
+  try {
+    return Math.max(1, (await readTiffPages(await file.arrayBuffer())).length);
+  } catch (error) {
+    console.error('Error reading TIFF pages:', error);
+    return 1;
+  }
+};
+
+// Each page becomes a source of its own, named after the page
+export const splitPages = async (source: SourceFile): Promise<SourceFile[]> => {
+  const count = await readPageCount(source.file);
+  if (count === 1) return [source];
+  return Array.from({ length: count }, (_, page) => {
+    const name = getPageFileName(source.file.name, page);
+    return {
+      ...source,
+      file: new File([source.file], name, { type: source.file.type, lastModified: source.file.lastModified }),
+      relativePath: joinPath(getDirectory(source.relativePath), name),
+      page,
+    };
+  });
+};
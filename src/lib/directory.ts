@@ -0,0 +1,130 @@
+import { SourceFile, addPathCounter, getDirectory, joinPath } from "./files";
+import { ArchiveEntry } from "./zip";
+
+// File System Access API parts that are not yet in the DOM lib
+type PermissionMode = 'read' | 'readwrite';
+
+declare global {
+  interface FileSystemHandle {
+    queryPermission(descriptor: { mode: PermissionMode }): Promise<PermissionState>;
+    requestPermission(descriptor: { mode: PermissionMode }): Promise<PermissionState>;
+  }
+
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: PermissionMode }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+// What happens when an output path already exists in the chosen folder
+export type ConflictPolicy = 'skip' | 'overwrite' | 'rename';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['skip', 'overwrite', 'rename'];
+
+// mirror writes the folder structure into a new directory, in-place writes next to the sources
+export type WriteBackMode = 'mirror' | 'in-place';
+
+export const WRITE_BACK_MODES: WriteBackMode[] = ['mirror', 'in-place'];
+
+export interface WriteEntry extends ArchiveEntry {
+  // Overwrite whatever is there regardless of the policy; used for sources replaced in place
+  replace?: boolean;
+}
+
+export interface WriteSummary {
+  written: string[];
+  skipped: string[];
+}
+
+export const supportsDirectoryAccess = (): boolean => typeof window.showDirectoryPicker === 'function';
+
+// Rejects with an AbortError when the user closes the picker
+export const pickDirectory = (mode: PermissionMode): Promise<FileSystemDirectoryHandle> =>
+  window.showDirectoryPicker!({ id: 'smollr', mode });
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Permission does not survive a reload, and asking needs a user gesture
+export const ensurePermission = async (handle: FileSystemHandle, mode: PermissionMode): Promise<boolean> =>
+  (await handle.queryPermission({ mode })) === 'granted' || (await handle.requestPermission({ mode })) === 'granted';
+
+const collectHandle = async (handle: FileSystemHandle, parent: string, root: FileSystemDirectoryHandle, out: SourceFile[]) => {
+  const relativePath = joinPath(parent, handle.name);
+
+  if (handle.kind === 'file') {
+    out.push({ file: await (handle as FileSystemFileHandle).getFile(), relativePath, root });
+    return;
+  }
+
+  for await (const child of (handle as FileSystemDirectoryHandle).values()) {
+    await collectHandle(child, relativePath, root, out);
+  }
+};
+
+// Paths start with the folder's own name, the same as a dropped folder
+export const readDirectory = async (root: FileSystemDirectoryHandle): Promise<SourceFile[]> => {
+  const files: SourceFile[] = [];
+  await collectHandle(root, '', root, files);
+  return files;
+};
+
+const getParentDirectory = async (root: FileSystemDirectoryHandle, path: string) => {
+  const segments = path.split('/');
+  const name = segments.pop()!;
+  let directory = root;
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create: true });
+  }
+  return { directory, name };
+};
+
+const fileExists = async (directory: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') return false;
+    throw error;
+  }
+};
+
+// Paths are relative to root and use "/"; missing folders are created on the way
+export const writeFiles = async (
+  root: FileSystemDirectoryHandle,
+  entries: WriteEntry[],
+  policy: ConflictPolicy,
+): Promise<WriteSummary> => {
+  const summary: WriteSummary = { written: [], skipped: [] };
+  // Two outputs of the same batch may want one name even before either exists on disk
+  const claimed = new Set<string>();
+
+  for (const { path, blob, replace } of entries) {
+    const { directory, name: requestedName } = await getParentDirectory(root, path);
+    const toPath = (candidate: string) => joinPath(getDirectory(path), candidate);
+    const taken = async (candidate: string) =>
+      claimed.has(toPath(candidate).toLowerCase()) || (await fileExists(directory, candidate));
+    let name = requestedName;
+
+    if (!replace && policy !== 'overwrite' && (await taken(name))) {
+      if (policy === 'skip') {
+        summary.skipped.push(path);
+        continue;
+      }
+      for (let counter = 2; await taken(name); counter++) {
+        name = addPathCounter(requestedName, counter);
+      }
+    }
+    claimed.add(toPath(name).toLowerCase());
+
+    const writable = await (await directory.getFileHandle(name, { create: true })).createWritable();
+    await writable.write(blob);
+    await writable.close();
+    summary.written.push(toPath(name));
+  }
+
+  return summary;
+};
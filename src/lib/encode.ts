@@ -0,0 +1,138 @@
+import { CONVERSION_FORMATS, ConversionFormat, getMimeType, isLossless, sniffFormat } from "./formats";
+import { CodecSettings, DEFAULT_CODEC_SETTINGS, encodeWithWasm } from "./codecs";
+import { renderForEncoding } from "./render";
+import { ImageTransform } from "./transform";
+import { WatermarkSettings, applyWatermark } from "./watermark";
+import { AnimationFrame } from "./animation";
+import { createWorkerPool } from "./worker-pool";
+import type { EncodeRequest, EncodeResult } from "./encode.worker";
+import type { EncodeControl } from "./pipeline";
+
+export interface EncodeOptions {
+  format: ConversionFormat;
+  quality: number;
+  width?: number;
+  height?: number;
+  codecs?: CodecSettings;
+  // Rotation, flips and crop; width and height are then the size of the transformed output
+  transform?: ImageTransform;
+  // Encodes these source frames as an animated WebP; format is then ignored
+  animation?: { frames: AnimationFrame[]; loopCount: number };
+  // Overlay drawn at the output size, after the transform
+  watermark?: WatermarkSettings;
+}
+
+const canUseWorkers =
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'convertToBlob' in OffscreenCanvas.prototype;
+
+const POOL_SIZE = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
+let pool: ReturnType<typeof createWorkerPool<EncodeRequest, EncodeResult>> | null = null;
+
+const getPool = () => {
+  pool ??= createWorkerPool<EncodeRequest, EncodeResult>(
+    () => new Worker(new URL('./encode.worker.ts', import.meta.url), { type: 'module' }),
+    POOL_SIZE,
+  );
+  return pool;
+};
+
+// Used when OffscreenCanvas is missing (older Safari) and blocks the main thread while it runs
+const encodeOnMainThread = async (
+  source: Blob,
+  { format, quality, width, height, codecs = DEFAULT_CODEC_SETTINGS, transform, watermark }: EncodeOptions,
+): Promise<Blob> => {
+  const bitmap = await createImageBitmap(source, { imageOrientation: 'from-image' });
+  const canvas = document.createElement('canvas');
+  canvas.width = width ?? bitmap.width;
+  canvas.height = height ?? bitmap.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  renderForEncoding(ctx, bitmap, format, canvas.width, canvas.height, transform);
+  bitmap.close();
+  await applyWatermark(ctx, canvas.width, canvas.height, watermark);
+
+  if (codecs[format].engine === 'wasm') {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return new Blob([await encodeWithWasm(imageData, format, quality, codecs)]);
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to convert image'));
+      }
+    }, getMimeType(format), isLossless(format) ? undefined : quality);
+  });
+};
+
+// The returned blob is typed from its own bytes, so a silent PNG fallback is never mislabelled
+const withSniffedType = async (data: Blob | ArrayBuffer): Promise<Blob> => {
+  const blob = data instanceof Blob ? data : new Blob([data]);
+  const bytes = new Uint8Array(await blob.slice(0, 128).arrayBuffer());
+  const format = sniffFormat(bytes);
+  if (!format) throw new Error('Encoder produced an unrecognised file');
+  return new Blob([blob], { type: getMimeType(format) });
+};
+
+export const encodeImage = async (
+  source: Blob,
+  options: EncodeOptions,
+  { signal, onProgress }: EncodeControl = {},
+): Promise<Blob> => {
+  signal?.throwIfAborted();
+
+  if (!canUseWorkers) {
+    // Frame decoding needs WebCodecs, which no browser without OffscreenCanvas has
+    if (options.animation) throw new Error('This browser cannot encode animations; use the first frame only');
+    const blob = await encodeOnMainThread(source, options);
+    onProgress?.(100);
+    return withSniffedType(blob);
+  }
+
+  const buffer = await source.arrayBuffer();
+  const result = await getPool().run(
+    { buffer, type: source.type, options },
+    { transfer: [buffer], signal, onProgress },
+  );
+  onProgress?.(100);
+  return withSniffedType(result);
+};
+
+let supportedFormats: Promise<ConversionFormat[]> | null = null;
+
+const probeFormat = async (format: ConversionFormat): Promise<ConversionFormat | null> => {
+  const type = getMimeType(format);
+  if (canUseWorkers) {
+    const blob = await new OffscreenCanvas(1, 1).convertToBlob({ type }).catch(() => null);
+    return blob?.type === type ? format : null;
+  }
+  return new Promise((resolve) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    canvas.toBlob((blob) => resolve(blob?.type === type ? format : null), type);
+  });
+};
+
+// Browser encoders silently return PNG for types they cannot produce, so probe each one
+const getBrowserFormats = (): Promise<ConversionFormat[]> => {
+  supportedFormats ??= Promise.all(CONVERSION_FORMATS.map(probeFormat)).then((formats) =>
+    formats.filter((format): format is ConversionFormat => format !== null),
+  );
+  return supportedFormats;
+};
+
+export const getSupportedFormats = async (codecs: CodecSettings = DEFAULT_CODEC_SETTINGS): Promise<ConversionFormat[]> => {
+  const browserFormats = await getBrowserFormats();
+  return CONVERSION_FORMATS.filter((format) => codecs[format].engine === 'wasm' || browserFormats.includes(format));
+};
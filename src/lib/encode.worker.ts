@@ -0,0 +1,113 @@
+import { getMimeType, isLossless } from "./formats";
+import { DEFAULT_CODEC_SETTINGS, encodeWithWasm } from "./codecs";
+import { renderForEncoding } from "./render";
+import { EncodedFrame, muxAnimatedWebp } from "./animation";
+import { applyWatermark, drawWatermark, loadWatermarkLogo } from "./watermark";
+import type { EncodeOptions } from "./encode";
+import type { WorkerMessage, WorkerTask } from "./worker-pool";
+
+export interface EncodeRequest {
+  buffer: ArrayBuffer;
+  type: string;
+  options: EncodeOptions;
+}
+
+export type EncodeResult = ArrayBuffer;
+
+// The app is type-checked against the DOM lib, so describe the worker scope locally
+interface EncodeWorkerScope {
+  onmessage: ((event: MessageEvent<WorkerTask<EncodeRequest>>) => void) | null;
+  postMessage(message: WorkerMessage<EncodeResult>, transfer?: Transferable[]): void;
+}
+
+declare const self: EncodeWorkerScope;
+
+// WebCodecs' ImageDecoder is not in the DOM lib either; only what the worker uses is described
+interface FrameDecoder {
+  decode(options: { frameIndex: number }): Promise<{ image: VideoFrame }>;
+  close(): void;
+}
+
+declare const ImageDecoder: (new (init: { data: ArrayBuffer; type: string }) => FrameDecoder) | undefined;
+
+// Frames come out of the decoder already composited, so each one is encoded as a full still and muxed
+const encodeAnimation = async (
+  id: number,
+  { buffer, type, options }: EncodeRequest,
+  animation: NonNullable<EncodeOptions['animation']>,
+): Promise<ArrayBuffer> => {
+  if (typeof ImageDecoder === 'undefined') {
+    throw new Error('This browser cannot decode animation frames; use the first frame only');
+  }
+  const { quality, codecs = DEFAULT_CODEC_SETTINGS, transform, watermark } = options;
+  const decoder = new ImageDecoder({ data: buffer, type });
+  const logo = watermark ? await loadWatermarkLogo(watermark) : null;
+  try {
+    const frames: EncodedFrame[] = [];
+    let canvas: OffscreenCanvas | null = null;
+    for (const [position, { index, duration }] of animation.frames.entries()) {
+      const { image } = await decoder.decode({ frameIndex: index });
+      const bitmap = await createImageBitmap(image);
+      image.close();
+
+      canvas ??= new OffscreenCanvas(options.width ?? bitmap.width, options.height ?? bitmap.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      renderForEncoding(ctx, bitmap, 'WEBP', canvas.width, canvas.height, transform);
+      bitmap.close();
+      if (watermark) drawWatermark(ctx, canvas.width, canvas.height, watermark, logo);
+
+      // Always libwebp: the muxer needs the raw bitstream chunks, whatever engine stills use
+      const data = await encodeWithWasm(ctx.getImageData(0, 0, canvas.width, canvas.height), 'WEBP', quality, codecs);
+      frames.push({ data: new Uint8Array(data), duration });
+      self.postMessage({ id, type: 'progress', progress: ((position + 1) / animation.frames.length) * 95 });
+    }
+    if (!canvas) throw new Error('Animation has no frames');
+    return new Blob([muxAnimatedWebp(frames, canvas.width, canvas.height, animation.loopCount)]).arrayBuffer();
+  } finally {
+    decoder.close();
+    logo?.close();
+  }
+};
+
+self.onmessage = async ({ data: { id, request } }) => {
+  const { buffer, type, options } = request;
+  const { format, quality, codecs = DEFAULT_CODEC_SETTINGS, transform, watermark } = options;
+
+  try {
+    if (options.animation) {
+      const result = await encodeAnimation(id, request, options.animation);
+      self.postMessage({ id, type: 'done', result }, [result]);
+      return;
+    }
+
+    const bitmap = await createImageBitmap(new Blob([buffer], { type }), { imageOrientation: 'from-image' });
+    self.postMessage({ id, type: 'progress', progress: 40 });
+
+    const width = options.width ?? bitmap.width;
+    const height = options.height ?? bitmap.height;
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+
+    renderForEncoding(ctx, bitmap, format, width, height, transform);
+    bitmap.close();
+    await applyWatermark(ctx, width, height, watermark);
+    self.postMessage({ id, type: 'progress', progress: 60 });
+
+    let result: ArrayBuffer;
+    if (codecs[format].engine === 'wasm') {
+      result = await encodeWithWasm(ctx.getImageData(0, 0, width, height), format, quality, codecs);
+    } else {
+      const blob = await canvas.convertToBlob({
+        type: getMimeType(format),
+        quality: isLossless(format) ? undefined : quality,
+      });
+      result = await blob.arrayBuffer();
+    }
+    self.postMessage({ id, type: 'done', result }, [result]);
+  } catch (error) {
+    self.postMessage({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
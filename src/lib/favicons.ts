@@ -0,0 +1,221 @@
+import { encodeImage } from "./encode";
+import { ArchiveEntry } from "./zip";
+
+export interface FaviconOptions {
+  name: string;
+  shortName: string;
+  themeColor: string;
+  backgroundColor: string;
+  // Fraction of each side left empty on maskable icons; Android crops to a circle inside 80%
+  maskablePadding: number;
+  // Prefix for every href in the generated tags and manifest
+  basePath: string;
+}
+
+export const DEFAULT_FAVICON_OPTIONS: FaviconOptions = {
+  name: 'My website',
+  shortName: 'Website',
+  themeColor: '#ffffff',
+  backgroundColor: '#ffffff',
+  maskablePadding: 0.1,
+  basePath: '/',
+};
+
+interface IconSpec {
+  fileName: string;
+  size: number;
+  padding: number;
+  // Opaque icons get the background colour behind the logo
+  opaque: boolean;
+}
+
+const ICO_SIZES = [16, 32, 48];
+const PINNED_TAB_SIZE = 64;
+
+const getIconSpecs = (maskablePadding: number): IconSpec[] => [
+  { fileName: 'favicon-16x16.png', size: 16, padding: 0, opaque: false },
+  { fileName: 'favicon-32x32.png', size: 32, padding: 0, opaque: false },
+  // iOS fills transparency with black, so the touch icon is always opaque
+  { fileName: 'apple-touch-icon.png', size: 180, padding: 0, opaque: true },
+  { fileName: 'android-chrome-192x192.png', size: 192, padding: 0, opaque: false },
+  { fileName: 'android-chrome-512x512.png', size: 512, padding: 0, opaque: false },
+  { fileName: 'maskable-icon-192x192.png', size: 192, padding: maskablePadding, opaque: true },
+  { fileName: 'maskable-icon-512x512.png', size: 512, padding: maskablePadding, opaque: true },
+];
+
+type LogoSource = ImageBitmap | HTMLImageElement;
+
+// createImageBitmap rejects SVG blobs in some browsers, and an <img> keeps vectors sharp at every size
+const loadLogo = async (file: Blob): Promise<LogoSource> => {
+  if (file.type !== 'image/svg+xml') {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const getLogoSize = (logo: LogoSource) =>
+  logo instanceof HTMLImageElement
+    ? { width: logo.naturalWidth || 512, height: logo.naturalHeight || 512 }
+    : { width: logo.width, height: logo.height };
+
+const renderIcon = (logo: LogoSource, size: number, padding: number, background: string | null) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, size, size);
+  }
+
+  // Contain the logo in the square left after padding, centred
+  const { width, height } = getLogoSize(logo);
+  const box = size * (1 - padding * 2);
+  const scale = Math.min(box / width, box / height);
+  const drawWidth = width * scale;
+  const drawHeight = height * scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(logo, (size - drawWidth) / 2, (size - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render icon'))), 'image/png');
+  });
+
+// Rendered by the canvas, then run through the regular PNG encoder so the pack is optimised too
+const renderIconPng = async (logo: LogoSource, size: number, padding: number, background: string | null) => {
+  const png = await canvasToPng(renderIcon(logo, size, padding, background));
+  return encodeImage(png, { format: 'PNG', quality: 1 });
+};
+
+// ICO with PNG payloads, understood by every current browser and by Windows since Vista
+const writeIco = async (images: { size: number; png: Blob }[]): Promise<Blob> => {
+  const payloads = await Promise.all(images.map(async ({ png }) => new Uint8Array(await png.arrayBuffer())));
+  const headerSize = 6 + images.length * 16;
+  const header = new DataView(new ArrayBuffer(headerSize));
+  header.setUint16(2, 1, true);
+  header.setUint16(4, images.length, true);
+
+  let offset = headerSize;
+  images.forEach(({ size }, index) => {
+    const entry = 6 + index * 16;
+    // 0 means 256 in the one-byte size fields
+    header.setUint8(entry, size >= 256 ? 0 : size);
+    header.setUint8(entry + 1, size >= 256 ? 0 : size);
+    header.setUint16(entry + 4, 1, true);
+    header.setUint16(entry + 6, 32, true);
+    header.setUint32(entry + 8, payloads[index].length, true);
+    header.setUint32(entry + 12, offset, true);
+    offset += payloads[index].length;
+  });
+
+  return new Blob([header.buffer, ...payloads], { type: 'image/x-icon' });
+};
+
+// Safari pinned tabs want a single-colour silhouette; trace the logo's coverage into row runs
+const traceSilhouette = (logo: LogoSource): string => {
+  const canvas = renderIcon(logo, PINNED_TAB_SIZE, 0, null);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context is not available');
+  const { data } = ctx.getImageData(0, 0, PINNED_TAB_SIZE, PINNED_TAB_SIZE);
+
+  const pixelCount = PINNED_TAB_SIZE * PINNED_TAB_SIZE;
+  const luma = (i: number) => 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  let transparent = 0;
+  let lumaSum = 0;
+  for (let i = 0; i < pixelCount; i++) {
+    if (data[i * 4 + 3] < 128) transparent++;
+    lumaSum += luma(i);
+  }
+  // Logos with transparency use their shape; opaque ones use whatever is darker than average
+  const useAlpha = transparent > 0;
+  const threshold = lumaSum / pixelCount;
+  const isInk = (i: number) => (useAlpha ? data[i * 4 + 3] >= 128 : luma(i) < threshold);
+
+  const runs: string[] = [];
+  for (let y = 0; y < PINNED_TAB_SIZE; y++) {
+    let start = -1;
+    for (let x = 0; x <= PINNED_TAB_SIZE; x++) {
+      const ink = x < PINNED_TAB_SIZE && isInk(y * PINNED_TAB_SIZE + x);
+      if (ink && start < 0) start = x;
+      if (!ink && start >= 0) {
+        runs.push(`M${start} ${y}h${x - start}v1h${start - x}z`);
+        start = -1;
+      }
+    }
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PINNED_TAB_SIZE} ${PINNED_TAB_SIZE}"><path d="${runs.join('')}"/></svg>\n`;
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const buildManifest = (options: FaviconOptions): string => {
+  const href = (fileName: string) => `${options.basePath}${fileName}`;
+  return JSON.stringify({
+    name: options.name,
+    short_name: options.shortName,
+    icons: [
+      { src: href('android-chrome-192x192.png'), sizes: '192x192', type: 'image/png', purpose: 'any' },
+      { src: href('android-chrome-512x512.png'), sizes: '512x512', type: 'image/png', purpose: 'any' },
+      { src: href('maskable-icon-192x192.png'), sizes: '192x192', type: 'image/png', purpose: 'maskable' },
+      { src: href('maskable-icon-512x512.png'), sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+    ],
+    theme_color: options.themeColor,
+    background_color: options.backgroundColor,
+    display: 'standalone',
+  }, null, 2);
+};
+
+export const buildLinkTags = ({ basePath, themeColor }: FaviconOptions): string => {
+  const href = (fileName: string) => escapeAttribute(`${basePath}${fileName}`);
+  return [
+    `<link rel="icon" href="${href('favicon.ico')}" sizes="${ICO_SIZES.map((size) => `${size}x${size}`).join(' ')}" />`,
+    `<link rel="icon" type="image/png" sizes="32x32" href="${href('favicon-32x32.png')}" />`,
+    `<link rel="icon" type="image/png" sizes="16x16" href="${href('favicon-16x16.png')}" />`,
+    `<link rel="apple-touch-icon" sizes="180x180" href="${href('apple-touch-icon.png')}" />`,
+    `<link rel="mask-icon" href="${href('safari-pinned-tab.svg')}" color="${escapeAttribute(themeColor)}" />`,
+    `<link rel="manifest" href="${href('site.webmanifest')}" />`,
+    `<meta name="theme-color" content="${escapeAttribute(themeColor)}" />`,
+  ].join('\n') + '\n';
+};
+
+// Only the logo, background and padding affect pixels, so callers can skip re-rendering on text edits
+export const renderFaviconIcons = async (
+  logoFile: Blob,
+  { backgroundColor, maskablePadding }: Pick<FaviconOptions, 'backgroundColor' | 'maskablePadding'>,
+): Promise<ArchiveEntry[]> => {
+  const logo = await loadLogo(logoFile);
+  try {
+    const icoImages = await Promise.all(
+      ICO_SIZES.map(async (size) => ({ size, png: await renderIconPng(logo, size, 0, null) })),
+    );
+    const entries: ArchiveEntry[] = [{ path: 'favicon.ico', blob: await writeIco(icoImages) }];
+
+    for (const { fileName, size, padding, opaque } of getIconSpecs(maskablePadding)) {
+      entries.push({ path: fileName, blob: await renderIconPng(logo, size, padding, opaque ? backgroundColor : null) });
+    }
+
+    entries.push({ path: 'safari-pinned-tab.svg', blob: new Blob([traceSilhouette(logo)], { type: 'image/svg+xml' }) });
+    return entries;
+  } finally {
+    if (!(logo instanceof HTMLImageElement)) logo.close();
+  }
+};
+
+export const buildFaviconFiles = (options: FaviconOptions): ArchiveEntry[] => [
+  { path: 'site.webmanifest', blob: new Blob([buildManifest(options)], { type: 'application/manifest+json' }) },
+  { path: 'favicon-tags.html', blob: new Blob([buildLinkTags(options)], { type: 'text/html' }) },
+];
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  addPathCounter,
+  createUniquePathResolver,
+  formatFileSize,
+  formatRatio,
+  getDirectory,
+  getOptimizedFileName,
+  getPageFileName,
+  getVariantFileName,
+  joinPath,
+  stripExtension,
+} from "./files";
+
+describe('file names', () => {
+  it('strips only the last extension', () => {
+    expect(stripExtension('photo.final.jpg')).toBe('photo.final');
+    expect(stripExtension('README')).toBe('README');
+  });
+
+  it('names outputs after their source', () => {
+    expect(getOptimizedFileName('photo.jpg', 'WEBP')).toBe('photo-optimized.webp');
+    expect(getVariantFileName('photo.jpg', 640, 'AVIF')).toBe('photo-640w.avif');
+    expect(getPageFileName('scan.tiff', 1)).toBe('scan-page-2.tiff');
+  });
+
+  it('splits and joins relative paths', () => {
+    expect(getDirectory('a/b/c.png')).toBe('a/b');
+    expect(getDirectory('c.png')).toBe('');
+    expect(joinPath('', 'a', '', 'c.png')).toBe('a/c.png');
+  });
+
+  it('adds a counter before the extension', () => {
+    expect(addPathCounter('a/photo.jpg', 2)).toBe('a/photo-2.jpg');
+    expect(addPathCounter('a/photo', 3)).toBe('a/photo-3');
+  });
+});
+
+describe('createUniquePathResolver', () => {
+  it('keeps the first path and numbers later ones, ignoring case', () => {
+    const resolve = createUniquePathResolver();
+    expect(resolve('c.webp')).toBe('c.webp');
+    expect(resolve('C.webp')).toBe('C-2.webp');
+    expect(resolve('c.webp')).toBe('c-3.webp');
+    expect(resolve('d.webp')).toBe('d.webp');
+  });
+});
+
+describe('formatting', () => {
+  it('formats sizes with binary units', () => {
+    expect(formatFileSize(0)).toBe('0 Bytes');
+    expect(formatFileSize(512)).toBe('512 Bytes');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(3 * 1024 * 1024)).toBe('3 MB');
+  });
+
+  it('signs ratios so growth reads as a plus', () => {
+    expect(formatRatio(42)).toBe('-42%');
+    expect(formatRatio(0)).toBe('-0%');
+    expect(formatRatio(-14)).toBe('+14%');
+  });
+});
@@ -0,0 +1,119 @@
+export interface SourceFile {
+  file: File;
+  // Path relative to the dropped folder, including the file name
+  relativePath: string;
+  // Folder picked through the File System Access API; relativePath starts with its name
+  root?: FileSystemDirectoryHandle;
+  // Page of a multi-page source, counted from 0; the file is then named after its page
+  page?: number;
+}
+
+export const stripExtension = (name: string): string => name.replace(/\.[^/.]+$/, "");
+
+export const getOptimizedFileName = (name: string, format: string): string =>
+  `${stripExtension(name)}-optimized.${format.toLowerCase()}`;
+
+export const getVariantFileName = (name: string, width: number, format: string): string =>
+  `${stripExtension(name)}-${width}w.${format.toLowerCase()}`;
+
+export const getDirectory = (relativePath: string): string => {
+  const index = relativePath.lastIndexOf('/');
+  return index === -1 ? '' : relativePath.slice(0, index);
+};
+
+export const joinPath = (...parts: string[]): string => parts.filter(Boolean).join('/');
+
+// "photo.jpg" -> "photo-2.jpg"
+export const addPathCounter = (path: string, counter: number): string =>
+  path.replace(/(\.[^/.]+)?$/, (ext) => `-${counter}${ext}`);
+
+// "scan.tiff", page 1 -> "scan-page-2.tiff"
+export const getPageFileName = (name: string, page: number): string =>
+  name.replace(/(\.[^/.]+)?$/, (ext) => `-page-${page + 1}${ext}`);
+
+// Returns a function that renames repeated paths to "name-2.ext", "name-3.ext", ...
+export const createUniquePathResolver = () => {
+  const used = new Set<string>();
+
+  return (path: string): string => {
+    let candidate = path;
+    let counter = 2;
+    while (used.has(candidate.toLowerCase())) {
+      candidate = addPathCounter(path, counter);
+      counter++;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a tick to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+
+const readFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const collectEntry = async (entry: FileSystemEntry, parent: string, out: SourceFile[]) => {
+  const relativePath = joinPath(parent, entry.name);
+
+  if (entry.isFile) {
+    out.push({ file: await readFile(entry as FileSystemFileEntry), relativePath });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in chunks until it yields an empty batch
+    let batch = await readEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) {
+        await collectEntry(child, relativePath, out);
+      }
+      batch = await readEntries(reader);
+    }
+  }
+};
+
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<SourceFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(toSourceFile);
+  }
+
+  const files: SourceFile[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, '', files);
+  }
+  return files;
+};
+
+export const toSourceFile = (file: File): SourceFile => ({
+  file,
+  relativePath: file.webkitRelativePath || file.name,
+});
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Re-encoding can grow a file, which should read as +n% rather than --n%
+export const formatRatio = (ratio: number): string => (ratio >= 0 ? `-${ratio}%` : `+${-ratio}%`);
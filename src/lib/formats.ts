@@ -0,0 +1,47 @@
+export type ConversionFormat = 'AVIF' | 'WEBP' | 'JPEG' | 'PNG';
+
+// AUTO encodes every supported format and keeps the smallest acceptable result
+export type OutputFormat = ConversionFormat | 'AUTO';
+
+export const CONVERSION_FORMATS: ConversionFormat[] = ['AVIF', 'WEBP', 'JPEG', 'PNG'];
+
+const MIME_TYPES: Record<ConversionFormat, string> = {
+  AVIF: 'image/avif',
+  WEBP: 'image/webp',
+  JPEG: 'image/jpeg',
+  PNG: 'image/png',
+};
+
+export const getMimeType = (format: ConversionFormat): string => MIME_TYPES[format];
+
+export const getFormatFromMimeType = (mimeType: string): ConversionFormat | null =>
+  CONVERSION_FORMATS.find((format) => MIME_TYPES[format] === mimeType) ?? null;
+
+export const isLossless = (format: ConversionFormat): boolean => format === 'PNG';
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// Brands of an ISO base media file (AVIF, HEIF); empty when the data does not start with an ftyp box
+export const readFtypBrands = (bytes: Uint8Array): string[] => {
+  if (ascii(bytes, 4, 8) !== 'ftyp') return [];
+  const boxSize = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(0);
+  const brands: string[] = [];
+  // Major brand at 8, then compatible brands after the minor version
+  for (let offset = 8; offset + 4 <= Math.min(boxSize, bytes.length); offset += offset === 8 ? 8 : 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+  return brands;
+};
+
+// Identifies encoded data by its signature instead of trusting the MIME type an encoder reports
+export const sniffFormat = (bytes: Uint8Array): ConversionFormat | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'JPEG';
+  if (bytes[0] === 0x89 && ascii(bytes, 1, 4) === 'PNG') return 'PNG';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'WEBP';
+  if (readFtypBrands(bytes).some((brand) => brand === 'avif' || brand === 'avis')) return 'AVIF';
+  return null;
+};
+
+export const sniffBlobFormat = async (blob: Blob): Promise<ConversionFormat | null> =>
+  sniffFormat(new Uint8Array(await blob.slice(0, 128).arrayBuffer()));
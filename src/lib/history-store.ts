@@ -0,0 +1,80 @@
+const DB_NAME = 'smollr';
+const DB_VERSION = 1;
+const STORE = 'results';
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open should be retried on the next call rather than cached
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // Writes are only durable once the transaction commits, not when the request succeeds
+  const [result] = await Promise.all([promisify(action(transaction.objectStore(STORE))), done]);
+  return result;
+};
+
+// Blobs and Files are stored as-is; IndexedDB clones them without base64 overhead
+export const saveHistoryEntry = async <T extends HistoryEntry>(entry: T): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(entry));
+};
+
+export const loadHistoryEntries = async <T extends HistoryEntry>(): Promise<T[]> => {
+  const entries = await withStore<T[]>('readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
+
+export const clearHistory = async (): Promise<void> => {
+  await withStore('readwrite', (store) => store.clear());
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Without this the browser may evict the history under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
@@ -0,0 +1,47 @@
+export const SHARE_CACHE = 'smollr-share-target';
+export const SHARE_TARGET_PATH = '/share-target';
+
+// File Handling API; not yet part of the DOM lib
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+declare global {
+  interface Window {
+    launchQueue?: LaunchQueue;
+  }
+}
+
+// Files opened through "Open with smollr" once the app is installed
+export const onLaunchFiles = (callback: (files: File[]) => void) => {
+  window.launchQueue?.setConsumer(async ({ files }) => {
+    if (files.length === 0) return;
+    callback(await Promise.all(files.map((handle) => handle.getFile())));
+  });
+};
+
+// Files shared from other apps, parked by the service worker before it redirected here
+export const takeSharedFiles = async (): Promise<File[]> => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('shared') || !('caches' in window)) return [];
+
+  // Drop the marker so a reload doesn't import the same files twice
+  url.searchParams.delete('shared');
+  window.history.replaceState(null, '', url);
+
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = await cache.keys();
+  const files = await Promise.all(requests.map(async (request) => {
+    const response = await cache.match(request);
+    if (!response) return null;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') ?? 'shared-image');
+    const blob = await response.blob();
+    return new File([blob], name, { type: blob.type });
+  }));
+  await caches.delete(SHARE_CACHE);
+  return files.filter((file): file is File => file !== null);
+};
@@ -0,0 +1,31 @@
+// The parts of libheif-js used to decode HEIC; the package ships no types for its ESM bundle
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface HeifPixels {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+  }
+
+  interface HeifImage {
+    get_width(): number;
+    get_height(): number;
+    is_primary(): boolean;
+    // Converts to interleaved RGBA in the target; the callback gets null when decoding fails
+    display(target: HeifPixels, callback: (result: HeifPixels | null) => void): void;
+    free(): void;
+  }
+
+  interface HeifDecoder {
+    // Context pointer, only released by the next decode
+    decoder: number | null;
+    decode(data: Uint8Array): HeifImage[];
+  }
+
+  export interface LibHeif {
+    HeifDecoder: new () => HeifDecoder;
+    heif_context_free(context: number): void;
+  }
+
+  const createLibHeif: () => LibHeif;
+  export default createLibHeif;
+}
@@ -0,0 +1,183 @@
+import { zlibSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_METADATA_SETTINGS,
+  MetadataSettings,
+  applyMetadataPolicy,
+  pngChunk,
+  readImageMetadata,
+  readPngChunks,
+  readWebpChunks,
+  stripSourceMetadata,
+} from "./metadata";
+
+const STRIP: MetadataSettings = DEFAULT_METADATA_SETTINGS;
+const KEEP: MetadataSettings = { ...DEFAULT_METADATA_SETTINGS, policy: 'keep' };
+
+const ascii = (value: string) => new TextEncoder().encode(value);
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out;
+};
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Big-endian EXIF with an orientation tag and a GPS IFD holding one entry
+const exifWithGps = (orientation: number) => {
+  const tiff = new Uint8Array(56);
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii('MM\0*'));
+  view.setUint32(4, 8);
+  view.setUint16(8, 2);
+  view.setUint16(10, 0x0112);
+  view.setUint16(12, 3);
+  view.setUint32(14, 1);
+  view.setUint16(18, orientation);
+  view.setUint16(22, 0x8825);
+  view.setUint16(24, 4);
+  view.setUint32(26, 1);
+  view.setUint32(30, 38);
+  view.setUint16(38, 1);
+  view.setUint16(40, 0);
+  view.setUint16(42, 1);
+  view.setUint32(44, 4);
+  tiff.set([2, 2, 0, 0], 48);
+  return tiff;
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array) =>
+  concat(new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload);
+
+const riffChunk = (type: string, data: Uint8Array) => {
+  const header = new Uint8Array(8);
+  header.set(ascii(type));
+  new DataView(header.buffer).setUint32(4, data.length, true);
+  return concat(header, data, new Uint8Array(data.length % 2));
+};
+
+const webp = (...chunks: Uint8Array[]) => {
+  const body = concat(ascii('WEBP'), ...chunks);
+  const header = concat(ascii('RIFF'), new Uint8Array(4));
+  new DataView(header.buffer).setUint32(4, body.length, true);
+  return new Blob([header, body], { type: 'image/webp' });
+};
+
+// Lossless bitstream header for a 4 x 4 image; the pixel data itself is never decoded here
+const VP8L = riffChunk('VP8L', new Uint8Array([0x2f, 0x03, 0xc0, 0x00, 0x00, 0x00, 0x00]));
+
+const png = (...chunks: Uint8Array[]) =>
+  new Blob([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', new Uint8Array([0, 0, 0, 4, 0, 0, 0, 4, 8, 6, 0, 0, 0])),
+    ...chunks,
+    pngChunk('IDAT', new Uint8Array([0])),
+    pngChunk('IEND', new Uint8Array()),
+  ], { type: 'image/png' });
+
+const iccp = (profile: Uint8Array) => pngChunk('iCCP', concat(ascii('P3\0\0'), zlibSync(profile)));
+
+describe('readImageMetadata', () => {
+  it('reads orientation and GPS from JPEG EXIF', async () => {
+    const jpeg = new Blob([
+      new Uint8Array([0xff, 0xd8]),
+      jpegSegment(0xe1, concat(ascii('Exif\0\0'), exifWithGps(6))),
+      new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9]),
+    ], { type: 'image/jpeg' });
+    const metadata = await readImageMetadata(jpeg);
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.hasGps).toBe(true);
+  });
+});
+
+describe('stripSourceMetadata', () => {
+  it('leaves a simple WebP without metadata byte for byte', async () => {
+    const source = webp(VP8L);
+    const stripped = await stripSourceMetadata(source, await readImageMetadata(source), STRIP);
+    expect(stripped).not.toBeNull();
+    expect(await bytesOf(stripped!)).toEqual(await bytesOf(source));
+  });
+
+  it('drops EXIF and XMP from an extended WebP and clears their flags', async () => {
+    const vp8x = new Uint8Array(10);
+    vp8x[0] = 0x08 | 0x04;
+    const source = webp(riffChunk('VP8X', vp8x), VP8L, riffChunk('EXIF', exifWithGps(1)), riffChunk('XMP ', ascii('<x/>')));
+    const stripped = await stripSourceMetadata(source, await readImageMetadata(source), STRIP);
+    const chunks = readWebpChunks(await bytesOf(stripped!));
+    expect(chunks.map(({ type }) => type)).toEqual(['VP8X', 'VP8L']);
+    expect(chunks[0].data[0]).toBe(0);
+    expect(stripped!.size).toBeLessThan(source.size);
+  });
+
+  it('keeps the JPEG orientation and profile but drops GPS, XMP and comments', async () => {
+    const profile = ascii('profile');
+    const source = new Blob([
+      new Uint8Array([0xff, 0xd8]),
+      jpegSegment(0xe0, ascii('JFIF\0\x01\x01\0\0\x01\0\x01\0\0')),
+      jpegSegment(0xe1, concat(ascii('Exif\0\0'), exifWithGps(6))),
+      jpegSegment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x/>')),
+      jpegSegment(0xe2, concat(ascii('ICC_PROFILE\0'), new Uint8Array([1, 1]), profile)),
+      jpegSegment(0xfe, ascii('made with a camera')),
+      new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9]),
+    ], { type: 'image/jpeg' });
+
+    const stripped = await stripSourceMetadata(source, await readImageMetadata(source), STRIP);
+    const bytes = await bytesOf(stripped!);
+    const metadata = await readImageMetadata(stripped!);
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.hasGps).toBe(false);
+    expect(metadata.icc).toEqual(profile);
+    expect(new TextDecoder().decode(bytes)).not.toMatch(/adobe|camera/);
+    // JFIF stays the first segment
+    expect(bytes.subarray(2, 4)).toEqual(new Uint8Array([0xff, 0xe0]));
+  });
+
+  it('drops PNG text chunks', async () => {
+    const source = png(pngChunk('tEXt', ascii('Comment\0hello')));
+    const stripped = await stripSourceMetadata(source, await readImageMetadata(source), STRIP);
+    expect(readPngChunks(await bytesOf(stripped!)).map(({ type }) => type)).toEqual(['IHDR', 'IDAT', 'IEND']);
+  });
+
+  it('ships the source untouched under the keep policy', async () => {
+    const source = png(pngChunk('tEXt', ascii('Comment\0hello')));
+    expect(await stripSourceMetadata(source, await readImageMetadata(source), KEEP)).toBe(source);
+  });
+
+  it('cannot rewrite AVIF', async () => {
+    const source = new Blob([new Uint8Array(16)], { type: 'image/avif' });
+    expect(await stripSourceMetadata(source, await readImageMetadata(source), STRIP)).toBeNull();
+  });
+});
+
+describe('applyMetadataPolicy', () => {
+  it('leaves encoder output alone when stripping', async () => {
+    const encoded = webp(VP8L);
+    const source = png(iccp(ascii('profile')));
+    expect(await applyMetadataPolicy(encoded, await readImageMetadata(source), STRIP)).toBe(encoded);
+  });
+
+  it('tags PNG output sRGB instead of copying the source profile', async () => {
+    const source = png(iccp(ascii('profile')));
+    const metadata = await readImageMetadata(source);
+    expect(metadata.icc).toEqual(ascii('profile'));
+
+    const written = await applyMetadataPolicy(png(pngChunk('gAMA', new Uint8Array(4))), metadata, KEEP);
+    const chunks = readPngChunks(await bytesOf(written));
+    expect(chunks.map(({ type }) => type)).toEqual(['IHDR', 'sRGB', 'IDAT', 'IEND']);
+  });
+
+  it('writes upright orientation and keeps GPS under the keep policy', async () => {
+    const source = new Blob([
+      new Uint8Array([0xff, 0xd8]),
+      jpegSegment(0xe1, concat(ascii('Exif\0\0'), exifWithGps(6))),
+      new Uint8Array([0xff, 0xda, 0, 2, 0xff, 0xd9]),
+    ], { type: 'image/jpeg' });
+    const encoded = new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2, 0xff, 0xd9])], { type: 'image/jpeg' });
+
+    const written = await readImageMetadata(await applyMetadataPolicy(encoded, await readImageMetadata(source), KEEP));
+    expect(written.orientation).toBe(1);
+    expect(written.hasGps).toBe(true);
+    expect(written.icc).toBeNull();
+  });
+});
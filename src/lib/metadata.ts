@@ -0,0 +1,460 @@
+import { unzlibSync, zlibSync } from "fflate";
+import { getFormatFromMimeType } from "./formats";
+
+export type MetadataPolicy = 'strip' | 'keep' | 'custom';
+
+export interface MetadataSettings {
+  policy: MetadataPolicy;
+  // Only consulted by the custom policy
+  orientation: boolean;
+  // Outputs are always converted to sRGB, so this marks them as sRGB rather than copying the source profile
+  icc: boolean;
+  copyright: boolean;
+}
+
+export const DEFAULT_METADATA_SETTINGS: MetadataSettings = {
+  policy: 'strip',
+  orientation: true,
+  icc: true,
+  copyright: true,
+};
+
+export interface ImageMetadata {
+  // TIFF structure of the EXIF block, without any "Exif\0\0" header
+  exif: Uint8Array | null;
+  icc: Uint8Array | null;
+  orientation: number;
+  copyright: string | null;
+  hasGps: boolean;
+}
+
+const EMPTY_METADATA: ImageMetadata = { exif: null, icc: null, orientation: 1, copyright: null, hasGps: false };
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_GPS_IFD = 0x8825;
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+
+const text = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // Position of the 12-byte entry inside the TIFF block
+  position: number;
+}
+
+const readIfd0 = (tiff: Uint8Array) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = view.getUint16(0) === 0x4949;
+  const ifdOffset = view.getUint32(4, little);
+  const entries: IfdEntry[] = [];
+  const count = view.getUint16(ifdOffset, little);
+  for (let i = 0; i < count; i++) {
+    const position = ifdOffset + 2 + i * 12;
+    entries.push({
+      tag: view.getUint16(position, little),
+      type: view.getUint16(position + 2, little),
+      count: view.getUint32(position + 4, little),
+      position,
+    });
+  }
+  return { view, little, entries };
+};
+
+const parseExif = (tiff: Uint8Array): Pick<ImageMetadata, 'orientation' | 'copyright' | 'hasGps'> => {
+  const { view, little, entries } = readIfd0(tiff);
+  let orientation = 1;
+  let copyright: string | null = null;
+  let hasGps = false;
+
+  for (const { tag, type, count, position } of entries) {
+    if (tag === TAG_ORIENTATION && type === TYPE_SHORT) {
+      orientation = view.getUint16(position + 8, little);
+    } else if (tag === TAG_COPYRIGHT && type === TYPE_ASCII) {
+      const start = count <= 4 ? position + 8 : view.getUint32(position + 8, little);
+      copyright = text(tiff, start, start + count).replace(/\0+$/, '') || null;
+    } else if (tag === TAG_GPS_IFD) {
+      const gpsOffset = view.getUint32(position + 8, little);
+      hasGps = gpsOffset > 0 && gpsOffset < tiff.length && view.getUint16(gpsOffset, little) > 0;
+    }
+  }
+
+  return { orientation, copyright, hasGps };
+};
+
+const stripExifHeader = (data: Uint8Array) =>
+  text(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data;
+
+const readJpeg = (bytes: Uint8Array) => {
+  let exif: Uint8Array | null = null;
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Metadata always precedes the scan data
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && text(data, 0, 6) === 'Exif\0\0') {
+      exif = data.subarray(6);
+    } else if (marker === 0xe2 && text(data, 0, 12) === 'ICC_PROFILE\0') {
+      iccChunks[data[12] - 1] = data.subarray(14);
+    }
+    offset += 2 + length;
+  }
+
+  return { exif, icc: iccChunks.length > 0 ? concat(iccChunks) : null };
+};
+
+export interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const readPngChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = text(bytes, offset + 4, offset + 8);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    if (type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+const readPng = (bytes: Uint8Array) => {
+  let exif: Uint8Array | null = null;
+  let icc: Uint8Array | null = null;
+  for (const { type, data } of readPngChunks(bytes)) {
+    if (type === 'eXIf') {
+      exif = stripExifHeader(data);
+    } else if (type === 'iCCP') {
+      // Profile name, NUL, compression method, then the zlib stream
+      const nameEnd = data.indexOf(0);
+      icc = unzlibSync(data.subarray(nameEnd + 2));
+    }
+  }
+  return { exif, icc };
+};
+
+export const readWebpChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset + 4, true);
+    chunks.push({ type: text(bytes, offset, offset + 4), data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+};
+
+const readWebp = (bytes: Uint8Array) => {
+  let exif: Uint8Array | null = null;
+  let icc: Uint8Array | null = null;
+  for (const { type, data } of readWebpChunks(bytes)) {
+    if (type === 'EXIF') exif = stripExifHeader(data);
+    if (type === 'ICCP') icc = data;
+  }
+  return { exif, icc };
+};
+
+// AVIF metadata lives in nested ISOBMFF boxes and is treated as absent
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  try {
+    const format = getFormatFromMimeType(file.type);
+    const found = format === 'JPEG' ? readJpeg(bytes)
+      : format === 'PNG' ? readPng(bytes)
+      : format === 'WEBP' ? readWebp(bytes)
+      : null;
+    if (!found) return EMPTY_METADATA;
+    return {
+      ...EMPTY_METADATA,
+      ...(found.exif ? parseExif(found.exif) : {}),
+      exif: found.exif,
+      icc: found.icc,
+    };
+  } catch (error) {
+    console.error('Error reading image metadata:', error);
+    return EMPTY_METADATA;
+  }
+};
+
+// Decoders rotate pixels upright, so any orientation tag written back must say "upright"
+const withUprightOrientation = (tiff: Uint8Array): Uint8Array => {
+  const copy = tiff.slice();
+  const { view, little, entries } = readIfd0(copy);
+  const entry = entries.find(({ tag, type }) => tag === TAG_ORIENTATION && type === TYPE_SHORT);
+  if (entry) view.setUint16(entry.position + 8, 1, little);
+  return copy;
+};
+
+// Big-endian TIFF holding only the IFD0 tags the custom policy keeps
+const buildExif = (orientation: number | null, copyright: string | null): Uint8Array | null => {
+  const tags: { tag: number; type: number; count: number; value: Uint8Array }[] = [];
+  if (orientation !== null) {
+    tags.push({ tag: TAG_ORIENTATION, type: TYPE_SHORT, count: 1, value: new Uint8Array([0, orientation, 0, 0]) });
+  }
+  if (copyright) {
+    const value = new TextEncoder().encode(`${copyright}\0`);
+    tags.push({ tag: TAG_COPYRIGHT, type: TYPE_ASCII, count: value.length, value });
+  }
+  if (tags.length === 0) return null;
+
+  const ifdSize = 2 + tags.length * 12 + 4;
+  const dataSize = tags.reduce((acc, { value }) => acc + (value.length > 4 ? value.length : 0), 0);
+  const out = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(out.buffer);
+  out.set([0x4d, 0x4d, 0x00, 0x2a]);
+  view.setUint32(4, 8);
+  view.setUint16(8, tags.length);
+
+  let dataOffset = 8 + ifdSize;
+  tags.forEach(({ tag, type, count, value }, index) => {
+    const position = 10 + index * 12;
+    view.setUint16(position, tag);
+    view.setUint16(position + 2, type);
+    view.setUint32(position + 4, count);
+    if (value.length <= 4) {
+      out.set(value, position + 8);
+    } else {
+      view.setUint32(position + 8, dataOffset);
+      out.set(value, dataOffset);
+      dataOffset += value.length;
+    }
+  });
+  return out;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+};
+
+// Free text, XMP and camera dumps; encoders never write them, sources often do
+const PNG_TEXT_CHUNKS = ['tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+const writePng = (bytes: Uint8Array, exif: Uint8Array | null, icc: Uint8Array | null, srgb = false): Uint8Array => {
+  const extra: Uint8Array[] = [];
+  if (icc) extra.push(pngChunk('iCCP', concat([new TextEncoder().encode('ICC profile\0\0'), zlibSync(icc)])));
+  // Perceptual rendering intent
+  else if (srgb) extra.push(pngChunk('sRGB', new Uint8Array([0])));
+  if (exif) extra.push(pngChunk('eXIf', exif));
+
+  // An embedded profile or sRGB chunk supersedes the others, and they must not coexist
+  const colour = icc || srgb ? ['iCCP', 'sRGB', 'gAMA', 'cHRM'] : [];
+  const replaced = new Set(['eXIf', ...PNG_TEXT_CHUNKS, ...colour]);
+  const parts = [bytes.subarray(0, 8)];
+  for (const { type, data } of readPngChunks(bytes)) {
+    if (replaced.has(type)) continue;
+    parts.push(pngChunk(type, data));
+    if (type === 'IHDR') parts.push(...extra);
+  }
+  return concat(parts);
+};
+
+const jpegSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(4 + payload.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+};
+
+const ICC_CHUNK_SIZE = 65519;
+
+// APP1 (EXIF, XMP), APP2 ICC profiles, APP13 (IPTC) and comments. Other segments such as
+// Adobe APP14 change how the pixels are decoded and are kept
+const removeJpegMetadata = (bytes: Uint8Array): Uint8Array => {
+  const parts = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+    const isMetadata = marker === 0xe1 || marker === 0xed || marker === 0xfe ||
+      (marker === 0xe2 && text(data, 0, 12) === 'ICC_PROFILE\0');
+    if (!isMetadata) parts.push(bytes.subarray(offset, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return concat([...parts, bytes.subarray(offset)]);
+};
+
+const writeJpeg = (bytes: Uint8Array, exif: Uint8Array | null, icc: Uint8Array | null): Uint8Array => {
+  const segments: Uint8Array[] = [];
+  if (exif) segments.push(jpegSegment(0xe1, concat([new TextEncoder().encode('Exif\0\0'), exif])));
+  if (icc) {
+    const count = Math.ceil(icc.length / ICC_CHUNK_SIZE);
+    for (let i = 0; i < count; i++) {
+      const header = concat([new TextEncoder().encode('ICC_PROFILE\0'), new Uint8Array([i + 1, count])]);
+      segments.push(jpegSegment(0xe2, concat([header, icc.subarray(i * ICC_CHUNK_SIZE, (i + 1) * ICC_CHUNK_SIZE)])));
+    }
+  }
+
+  // Keep a leading JFIF APP0 in first position
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const VP8X_ICC = 0x20;
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const writeWebp = (bytes: Uint8Array, exif: Uint8Array | null, icc: Uint8Array | null): Uint8Array => {
+  const chunks = readWebpChunks(bytes).filter(({ type }) => type !== 'EXIF' && type !== 'ICCP' && type !== 'XMP ');
+  // A simple-format file holds no metadata, and with none to add it is already as small as it gets
+  if (chunks[0].type !== 'VP8X' && !exif && !icc) return bytes;
+  let header = chunks[0].type === 'VP8X' ? chunks.shift()!.data.slice() : null;
+
+  // Simple-format files need an extended header before they can carry metadata
+  if (!header) {
+    const { type, data } = chunks[0];
+    let width: number;
+    let height: number;
+    let flags = 0;
+    if (type === 'VP8L') {
+      const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+      width = (bits & 0x3fff) + 1;
+      height = ((bits >>> 14) & 0x3fff) + 1;
+      if ((bits >>> 28) & 1) flags |= VP8X_ALPHA;
+    } else {
+      width = ((data[6] | (data[7] << 8)) & 0x3fff);
+      height = ((data[8] | (data[9] << 8)) & 0x3fff);
+    }
+    header = new Uint8Array(10);
+    header[0] = flags;
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, ((width - 1) >> 16) & 0xff], 4);
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, ((height - 1) >> 16) & 0xff], 7);
+  }
+
+  header[0] = (header[0] & ~(VP8X_ICC | VP8X_EXIF | VP8X_XMP)) | (icc ? VP8X_ICC : 0) | (exif ? VP8X_EXIF : 0);
+
+  const ordered: Chunk[] = [
+    { type: 'VP8X', data: header },
+    ...(icc ? [{ type: 'ICCP', data: icc }] : []),
+    ...chunks,
+    ...(exif ? [{ type: 'EXIF', data: exif }] : []),
+  ];
+
+  const body = concat(ordered.map(({ type, data }) => {
+    const out = new Uint8Array(8 + data.length + (data.length % 2));
+    out.set(new TextEncoder().encode(type));
+    new DataView(out.buffer).setUint32(4, data.length, true);
+    out.set(data, 8);
+    return out;
+  }));
+  const out = concat([bytes.subarray(0, 12), body]);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return out;
+};
+
+// The source profile is never copied: decoders have already converted the pixels to sRGB, and a
+// Display P3 or Adobe RGB profile on sRGB pixels would oversaturate them. Keeping it tags the output sRGB
+const selectMetadata = (metadata: ImageMetadata, settings: MetadataSettings) => {
+  switch (settings.policy) {
+    case 'strip':
+      return { exif: null, srgb: false };
+    case 'keep':
+      return { exif: metadata.exif && withUprightOrientation(metadata.exif), srgb: metadata.icc !== null };
+    case 'custom':
+      return {
+        exif: metadata.exif && buildExif(settings.orientation ? 1 : null, settings.copyright ? metadata.copyright : null),
+        srgb: settings.icc && metadata.icc !== null,
+      };
+  }
+};
+
+// For a source shipped without re-encoding. Its pixels were never decoded, so its own colour profile and
+// orientation still describe them and stay; everything else the policy would not write is removed.
+// null when the format cannot be rewritten (AVIF), so only the keep policy can ship it as is.
+export const stripSourceMetadata = async (
+  blob: Blob,
+  metadata: ImageMetadata,
+  settings: MetadataSettings,
+): Promise<Blob | null> => {
+  if (settings.policy === 'keep') return blob;
+
+  const format = getFormatFromMimeType(blob.type);
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const copyright = settings.policy === 'custom' && settings.copyright ? metadata.copyright : null;
+  const exif = buildExif(metadata.orientation !== 1 ? metadata.orientation : null, copyright);
+  const stripped = format === 'JPEG' ? writeJpeg(removeJpegMetadata(bytes), exif, metadata.icc)
+    : format === 'PNG' ? writePng(bytes, exif, metadata.icc)
+    : format === 'WEBP' ? writeWebp(bytes, exif, metadata.icc)
+    : null;
+  return stripped && new Blob([stripped], { type: blob.type });
+};
+
+// Whether GPS coordinates from the source survive into an output of the given type
+export const keepsGps = (metadata: ImageMetadata, settings: MetadataSettings, outputType: string): boolean =>
+  metadata.hasGps && settings.policy === 'keep' && getFormatFromMimeType(outputType) !== 'AVIF';
+
+// Encoders never copy metadata, so outputs start stripped and only the allowed blocks are written back.
+// Only PNG gets an explicit sRGB tag; untagged JPEG and WebP are read as sRGB already. AVIF outputs stay stripped.
+export const applyMetadataPolicy = async (
+  blob: Blob,
+  metadata: ImageMetadata,
+  settings: MetadataSettings,
+): Promise<Blob> => {
+  const { exif, srgb } = selectMetadata(metadata, settings);
+  const format = getFormatFromMimeType(blob.type);
+  if (!exif && !(srgb && format === 'PNG')) return blob;
+
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const written = format === 'JPEG' ? writeJpeg(bytes, exif, null)
+    : format === 'PNG' ? writePng(bytes, exif, null, srgb)
+    : format === 'WEBP' ? writeWebp(bytes, exif, null)
+    : null;
+  return written ? new Blob([written], { type: blob.type }) : blob;
+};
@@ -0,0 +1,549 @@
+import { ConversionFormat, OutputFormat, getFormatFromMimeType, getMimeType } from "./formats";
+import { CodecSettings, DEFAULT_CODEC_SETTINGS, ignoresQuality } from "./codecs";
+import { CompressionSettings, fitWithin } from "./settings";
+import {
+  FormatCandidate,
+  METRIC_SIZE,
+  QualityMetrics,
+  QualitySearchMode,
+  QualitySearchSummary,
+  SearchStep,
+  pickBestUnderSize,
+  pickSmallestCandidate,
+} from "./quality";
+import { ImageMetadata, applyMetadataPolicy, keepsGps, readImageMetadata, stripSourceMetadata } from "./metadata";
+import { ResponsiveVariant, buildPictureMarkup, getResponsiveWidths } from "./responsive";
+import { getVariantFileName, stripExtension } from "./files";
+import { ImageTransform, getTransformGeometry, isIdentityTransform } from "./transform";
+import { SVG_MIME_TYPE, getSvgSize, minifySvg } from "./svg";
+import { WatermarkSettings, hasWatermark } from "./watermark";
+import {
+  AnimationChoice,
+  AnimationInfo,
+  AnimationSummary,
+  canKeepAnimation,
+  parseAnimationInfo,
+  readAnimationInfo,
+  selectFrames,
+  summarizeAnimation,
+} from "./animation";
+import { DecodedFormat, InputFormat, getKeptFormat, getUnsupportedFormatMessage, needsDecoding, readInputFormat, withInputType } from "./decode";
+import type { EncodeOptions } from "./encode";
+
+export interface EncodeControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+// Where pixels get decoded and encoded: canvas + WASM workers in the browser, sharp in Node
+export interface ImageBackend {
+  // Dimensions with EXIF orientation applied
+  getDimensions(source: Blob): Promise<{ width: number; height: number }>;
+  // Must return a blob typed from the bytes it actually produced
+  encode(source: Blob, options: EncodeOptions, control?: EncodeControl): Promise<Blob>;
+  // Both images are compared at the optimized image's size
+  measureQuality(original: Blob, optimized: Blob): Promise<QualityMetrics>;
+  getSupportedFormats(codecs: CodecSettings): Promise<ConversionFormat[]>;
+  // Lossless PNG of a format only the bundled decoders can read
+  decode(source: Blob, format: DecodedFormat, page: number): Promise<Blob>;
+}
+
+export type GpsStatus = 'none' | 'stripped' | 'kept';
+
+export interface OptimizationResult {
+  blob: Blob;
+  format: string;
+  width: number;
+  height: number;
+  originalFormat: string;
+  isConverted: boolean;
+  compressionRatio: number;
+  gps: GpsStatus;
+  // Against the source, or against a lossless render of the edit when one was applied
+  metrics?: QualityMetrics;
+  candidates?: FormatCandidate[];
+  // Set when the quality was searched for rather than taken from the settings
+  search?: QualitySearchSummary;
+  variants?: ResponsiveVariant[];
+  responsiveMarkup?: string;
+  // Set when the output is animated
+  animation?: AnimationSummary;
+  // The lossless PNG everything was made from, when the source format had to be decoded first
+  decodedSource?: Blob;
+}
+
+export interface OptimizeOptions extends EncodeControl {
+  settings: CompressionSettings;
+  // null keeps the source format
+  targetFormat: OutputFormat | null;
+  transform?: ImageTransform;
+  // Needed when an animated source meets a target format that can only hold one frame
+  animation?: AnimationChoice;
+  // Called after each encode of a quality search
+  onSearchStep?: (step: SearchStep) => void;
+  // Page of a multi-page TIFF, counted from 0
+  page?: number;
+}
+
+export const calculateCompressionRatio = (originalSize: number, compressedSize: number): number => {
+  return Math.round(((originalSize - compressedSize) / originalSize) * 100);
+};
+
+interface SizeBudget {
+  maxBytes: number;
+  keepResolution: boolean;
+}
+
+const MIN_QUALITY = 0.1;
+const MAX_ATTEMPTS = 8;
+
+// Steps quality down first, then dimensions (unless locked), until the output fits the budget
+export const encodeWithinSize = async (
+  backend: ImageBackend,
+  source: Blob,
+  options: EncodeOptions & { width: number; height: number },
+  { maxBytes, keepResolution }: SizeBudget,
+  { signal, onProgress }: EncodeControl = {},
+): Promise<Blob> => {
+  const codecs = options.codecs ?? DEFAULT_CODEC_SETTINGS;
+  let { quality, width, height } = options;
+  let blob: Blob | null = null;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    blob = await backend.encode(source, { ...options, quality, width, height }, {
+      signal,
+      onProgress: (progress) => onProgress?.(attempt === 0 ? progress * 0.9 : 90),
+    });
+    if (blob.size <= maxBytes) break;
+
+    if (!ignoresQuality(options.format, codecs) && quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality * 0.8);
+    } else if (!keepResolution && width > 1 && height > 1) {
+      width = Math.max(1, Math.round(width * 0.85));
+      height = Math.max(1, Math.round(height * 0.85));
+    } else {
+      break;
+    }
+  }
+
+  onProgress?.(100);
+  return blob!;
+};
+
+interface QualityTarget {
+  mode: Exclude<QualitySearchMode, 'off'>;
+  minSsim: number;
+  maxBytes: number;
+}
+
+interface SearchAttempt {
+  quality: number;
+  blob: Blob;
+  ssim?: number;
+  passed: boolean;
+}
+
+const SEARCH_STEPS = 7;
+
+// Bisects encoder quality for the lowest that keeps minSsim, or the highest that fits maxBytes.
+// Quality is rounded to hundredths, so the search also ends once it would repeat itself.
+const searchQuality = async (
+  backend: ImageBackend,
+  source: Blob,
+  reference: Blob,
+  options: EncodeOptions & { width: number; height: number },
+  { mode, minSsim, maxBytes }: QualityTarget,
+  { signal, onProgress, onSearchStep }: EncodeControl & Pick<OptimizeOptions, 'onSearchStep'> = {},
+): Promise<{ blob: Blob; search: QualitySearchSummary }> => {
+  const attempts: SearchAttempt[] = [];
+  let low = MIN_QUALITY;
+  let high = 1;
+
+  for (let iteration = 1; iteration <= SEARCH_STEPS; iteration++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    if (attempts.some((attempt) => attempt.quality === quality)) break;
+
+    const blob = await backend.encode(source, { ...options, quality }, {
+      signal,
+      onProgress: (progress) => onProgress?.(((iteration - 1 + progress / 100) / SEARCH_STEPS) * 100),
+    });
+    const ssim = mode === 'ssim' ? (await backend.measureQuality(reference, blob)).ssim : undefined;
+    const passed = ssim !== undefined ? ssim >= minSsim : blob.size <= maxBytes;
+    attempts.push({ quality, blob, ssim, passed });
+    onSearchStep?.({ format: options.format, iteration, quality, bytes: blob.size, ssim, passed });
+
+    // A pass lets an SSIM search go lower and a size search go higher
+    if (passed === (mode === 'ssim')) {
+      high = quality;
+    } else {
+      low = quality;
+    }
+  }
+
+  const passing = attempts.filter((attempt) => attempt.passed);
+  const best = passing.length > 0
+    ? passing.reduce((acc, attempt) =>
+      (mode === 'ssim' ? attempt.blob.size < acc.blob.size : attempt.quality > acc.quality) ? attempt : acc)
+    // Nothing met the target, so keep whichever came closest
+    : attempts.reduce((acc, attempt) =>
+      (mode === 'ssim' ? attempt.ssim! > acc.ssim! : attempt.blob.size < acc.blob.size) ? attempt : acc);
+
+  onProgress?.(100);
+  return { blob: best.blob, search: { quality: best.quality, iterations: attempts.length, met: passing.length > 0 } };
+};
+
+const getQualityTarget = ({ qualitySearch, minSsim, targetSizeMB }: CompressionSettings): QualityTarget | null =>
+  qualitySearch === 'off' ? null : { mode: qualitySearch, minSsim, maxBytes: targetSizeMB * 1024 * 1024 };
+
+// Size of the source once rotated and cropped, before any max width/height limit
+const getTransformedSize = async (backend: ImageBackend, file: Blob, transform?: ImageTransform) => {
+  const size = await backend.getDimensions(file);
+  return transform ? getTransformGeometry(size.width, size.height, transform) : size;
+};
+
+const getOutputSize = async (
+  backend: ImageBackend,
+  file: Blob,
+  { maxWidth, maxHeight }: CompressionSettings,
+  transform?: ImageTransform,
+) => {
+  const { width, height } = await getTransformedSize(backend, file, transform);
+  // An exact size was asked for explicitly, so the limits only apply to everything else
+  if (transform?.resize) return { width, height };
+  return fitWithin(width, height, maxWidth, maxHeight);
+};
+
+// Lossless PNG for comparing pixels, never for shipping
+const renderLosslessPng = (
+  backend: ImageBackend,
+  file: Blob,
+  codecs: CodecSettings,
+  options: { width: number; height: number; transform?: ImageTransform; watermark?: WatermarkSettings },
+  signal?: AbortSignal,
+): Promise<Blob> =>
+  backend.encode(file, {
+    format: 'PNG',
+    quality: 1,
+    codecs: { ...codecs, PNG: { ...codecs.PNG, quantize: false, effort: 0 } },
+    ...options,
+  }, { signal });
+
+// Metrics need pixels that line up, so an edited or watermarked image is compared with a lossless
+// render of the same edit and overlay
+const getReference = async (
+  backend: ImageBackend,
+  file: Blob,
+  settings: CompressionSettings,
+  transform: ImageTransform | undefined,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const watermark = hasWatermark(settings.watermark) ? settings.watermark : undefined;
+  if (isIdentityTransform(transform) && !watermark) return file;
+  const { width, height } = await getOutputSize(backend, file, settings, transform);
+  return renderLosslessPng(backend, file, settings.codecs, { width, height, transform, watermark }, signal);
+};
+
+const encodeCandidates = async (
+  backend: ImageBackend,
+  file: Blob,
+  metadata: ImageMetadata,
+  settings: CompressionSettings,
+  transform: ImageTransform | undefined,
+  { signal, onProgress, onSearchStep }: EncodeControl & Pick<OptimizeOptions, 'onSearchStep'>,
+): Promise<FormatCandidate[]> => {
+  const { width, height } = await getOutputSize(backend, file, settings, transform);
+  const { quality, codecs } = settings;
+  const reference = await getReference(backend, file, settings, transform, signal);
+  const target = getQualityTarget(settings);
+
+  const formats = await backend.getSupportedFormats(codecs);
+  const candidates: FormatCandidate[] = [];
+  for (const [index, format] of formats.entries()) {
+    signal?.throwIfAborted();
+    const options = { format, quality, width, height, codecs, transform, watermark: settings.watermark };
+    const control = {
+      signal,
+      onProgress: (progress: number) => onProgress?.(((index + progress / 100) / formats.length) * 100),
+    };
+    let blob: Blob;
+    let search: QualitySearchSummary | undefined;
+    if (target && !ignoresQuality(format, codecs)) {
+      ({ blob, search } = await searchQuality(backend, file, reference, options, target, { ...control, onSearchStep }));
+    } else {
+      blob = await backend.encode(file, options, control);
+    }
+    candidates.push({
+      format,
+      blob: await applyMetadataPolicy(blob, metadata, settings.metadata),
+      metrics: await backend.measureQuality(reference, blob),
+      search,
+    });
+  }
+  return candidates;
+};
+
+const generateResponsiveSet = async (
+  backend: ImageBackend,
+  file: Blob,
+  name: string,
+  metadata: ImageMetadata,
+  { responsive, quality, codecs, metadata: metadataSettings, watermark }: CompressionSettings,
+  transform: ImageTransform | undefined,
+  { signal, onProgress }: EncodeControl,
+): Promise<ResponsiveVariant[]> => {
+  const { width: sourceWidth, height: sourceHeight } = await getTransformedSize(backend, file, transform);
+
+  const tasks = getResponsiveWidths(sourceWidth, responsive.widths).flatMap((width) =>
+    responsive.formats.map((format) => ({ width, format }))
+  );
+  const variants: ResponsiveVariant[] = [];
+
+  for (const [index, { width, format }] of tasks.entries()) {
+    signal?.throwIfAborted();
+    const height = Math.round((sourceHeight * width) / sourceWidth);
+    const blob = await backend.encode(file, { format, quality, width, height, codecs, transform, watermark }, {
+      signal,
+      onProgress: (progress) => onProgress?.(((index + progress / 100) / tasks.length) * 100),
+    });
+    // Browser encoders fall back to PNG for formats they cannot produce
+    if (blob.type === getMimeType(format)) {
+      variants.push({
+        fileName: getVariantFileName(name, width, format),
+        format,
+        width,
+        height,
+        blob: await applyMetadataPolicy(blob, metadata, metadataSettings),
+      });
+    }
+  }
+
+  return variants;
+};
+
+// SVG stays vector: the markup is minified, and raster copies are only made when asked for.
+// The target format is ignored, since converting the main output would throw the vector away.
+// Only the raster copies carry the watermark.
+const optimizeSvgImage = async (
+  backend: ImageBackend,
+  file: Blob,
+  name: string,
+  { settings, signal, onProgress }: OptimizeOptions,
+): Promise<OptimizationResult> => {
+  const { svg, quality, codecs, responsive, watermark } = settings;
+  const minified = new Blob([await minifySvg(await file.text(), svg)], { type: SVG_MIME_TYPE });
+  const blob = minified.size < file.size ? minified : new Blob([file], { type: SVG_MIME_TYPE });
+  const { width, height } = getSvgSize(await blob.text());
+
+  let variants: ResponsiveVariant[] | undefined;
+  if (svg.rasterize) {
+    // Vectors scale up cleanly, so every requested width is rendered
+    const tasks = svg.rasterWidths.flatMap((variantWidth) => svg.rasterFormats.map((format) => ({ variantWidth, format })));
+    variants = [];
+    for (const [index, { variantWidth, format }] of tasks.entries()) {
+      signal?.throwIfAborted();
+      const variantHeight = Math.max(1, Math.round((height * variantWidth) / width));
+      const raster = await backend.encode(blob, { format, quality, width: variantWidth, height: variantHeight, codecs, watermark }, {
+        signal,
+        onProgress: (progress) => onProgress?.(((index + progress / 100) / tasks.length) * 100),
+      });
+      if (raster.type === getMimeType(format)) {
+        variants.push({
+          fileName: getVariantFileName(name, variantWidth, format),
+          format,
+          width: variantWidth,
+          height: variantHeight,
+          blob: raster,
+        });
+      }
+    }
+  }
+
+  // Rounding coordinates can move edges, so both versions are rendered and compared as pixels
+  const metricSize = fitWithin(width, height, METRIC_SIZE, METRIC_SIZE);
+  const metrics = await backend.measureQuality(
+    await renderLosslessPng(backend, file, codecs, metricSize, signal),
+    await renderLosslessPng(backend, blob, codecs, metricSize, signal),
+  );
+  onProgress?.(100);
+
+  return {
+    blob,
+    format: 'SVG',
+    width,
+    height,
+    originalFormat: 'SVG',
+    isConverted: false,
+    compressionRatio: calculateCompressionRatio(file.size, blob.size),
+    gps: 'none',
+    metrics,
+    variants,
+    responsiveMarkup: variants && buildPictureMarkup(variants, { sizes: responsive.sizes, alt: stripExtension(name) }),
+  };
+};
+
+// Animations always become animated WebP. A still-only target is refused unless the caller chose to
+// animate anyway, since quietly keeping one frame would throw most of the image away.
+// Metadata is dropped and no responsive set is made.
+const optimizeAnimatedImage = async (
+  backend: ImageBackend,
+  file: Blob,
+  info: AnimationInfo,
+  originalFormat: InputFormat,
+  { settings, targetFormat, transform, animation, signal, onProgress }: OptimizeOptions,
+): Promise<OptimizationResult> => {
+  if (!canKeepAnimation(targetFormat) && animation !== 'animate') {
+    throw new Error(
+      `${info.delays.length}-frame animation cannot be saved as ${targetFormat}; keep it as animated WebP or use the first frame only`,
+    );
+  }
+
+  const { hasGps } = await readImageMetadata(file);
+  const { width, height } = await getOutputSize(backend, file, settings, transform);
+  const blob = await encodeWithinSize(
+    backend,
+    file,
+    {
+      format: 'WEBP',
+      quality: settings.quality,
+      width,
+      height,
+      codecs: settings.codecs,
+      transform,
+      watermark: settings.watermark,
+      animation: { frames: selectFrames(info, settings.animation.maxFps), loopCount: info.loopCount },
+    },
+    { maxBytes: settings.targetSizeMB * 1024 * 1024, keepResolution: settings.keepResolution },
+    { signal, onProgress },
+  );
+  const output = parseAnimationInfo(new Uint8Array(await blob.arrayBuffer()));
+  // Decoders hand over the first frame of each, so that is what the scores describe
+  const metrics = await backend.measureQuality(await getReference(backend, file, settings, transform, signal), blob);
+
+  return {
+    blob,
+    format: 'WEBP',
+    width,
+    height,
+    originalFormat,
+    isConverted: originalFormat !== 'WEBP',
+    compressionRatio: calculateCompressionRatio(file.size, blob.size),
+    gps: hasGps ? 'stripped' : 'none',
+    metrics,
+    animation: output ? summarizeAnimation(output) : undefined,
+  };
+};
+
+// The format comes from the bytes, not the MIME type, which may be missing or made up.
+// Formats without an encoder are decoded to a PNG first and everything after works from that.
+export const optimizeImage = async (
+  backend: ImageBackend,
+  source: Blob,
+  name: string,
+  options: OptimizeOptions,
+): Promise<OptimizationResult> => {
+  const originalFormat = await readInputFormat(source);
+  if (!originalFormat) throw new Error(getUnsupportedFormatMessage());
+  const typed = withInputType(source, originalFormat);
+  if (originalFormat === 'SVG') return optimizeSvgImage(backend, typed, name, options);
+
+  const file = needsDecoding(originalFormat) ? await backend.decode(typed, originalFormat, options.page ?? 0) : typed;
+  const animationInfo = await readAnimationInfo(file);
+  if (animationInfo && options.animation !== 'first-frame') {
+    return optimizeAnimatedImage(backend, file, animationInfo, originalFormat, options);
+  }
+
+  const { settings, targetFormat, transform, signal, onProgress, onSearchStep } = options;
+  const metadata = await readImageMetadata(file);
+
+  // The responsive set takes the second half of the progress bar
+  const mainShare = settings.responsive.enabled ? 0.5 : 1;
+
+  let compressedFile: Blob;
+  let metrics: QualityMetrics;
+  let candidates: FormatCandidate[] | undefined;
+  let search: QualitySearchSummary | undefined;
+  const target = getQualityTarget(settings);
+
+  if (targetFormat === 'AUTO') {
+    candidates = await encodeCandidates(backend, file, metadata, settings, transform, {
+      signal,
+      onProgress: (progress) => onProgress?.(progress * mainShare),
+      onSearchStep,
+    });
+    ({ blob: compressedFile, metrics, search } = target?.mode === 'size'
+      ? pickBestUnderSize(candidates, target.maxBytes)
+      : pickSmallestCandidate(candidates, settings.minSsim));
+  } else {
+    const outputFormat: ConversionFormat = targetFormat ?? getKeptFormat(originalFormat);
+    const { width, height } = await getOutputSize(backend, file, settings, transform);
+    const encodeOptions = {
+      format: outputFormat,
+      quality: settings.quality,
+      width,
+      height,
+      codecs: settings.codecs,
+      transform,
+      watermark: settings.watermark,
+    };
+    const control = { signal, onProgress: (progress: number) => onProgress?.(progress * mainShare) };
+    const reference = await getReference(backend, file, settings, transform, signal);
+    if (target && !ignoresQuality(outputFormat, settings.codecs)) {
+      ({ blob: compressedFile, search } = await searchQuality(
+        backend, file, reference, encodeOptions, target, { ...control, onSearchStep },
+      ));
+    } else {
+      compressedFile = await encodeWithinSize(
+        backend,
+        file,
+        encodeOptions,
+        { maxBytes: settings.targetSizeMB * 1024 * 1024, keepResolution: settings.keepResolution },
+        control,
+      );
+    }
+
+    compressedFile = await applyMetadataPolicy(compressedFile, metadata, settings.metadata);
+
+    // Re-encoding in the same format can grow an already optimised file; keep the original then, with
+    // the metadata the policy removes taken out, unless that would undo the edits or the watermark.
+    // A decoded source has no original in the output format to fall back to.
+    if (targetFormat === null && file === typed && isIdentityTransform(transform) && !hasWatermark(settings.watermark)) {
+      const original = await stripSourceMetadata(typed, metadata, settings.metadata);
+      if (original && original.size <= compressedFile.size) compressedFile = original;
+    }
+    metrics = await backend.measureQuality(reference, compressedFile);
+  }
+
+  // Report what the bytes actually are, not what was requested
+  const format = getFormatFromMimeType(compressedFile.type) ?? originalFormat;
+  const { width, height } = await backend.getDimensions(compressedFile);
+
+  let variants: ResponsiveVariant[] | undefined;
+  if (settings.responsive.enabled) {
+    // Smaller copies of the same picture, so they reuse whatever quality the search settled on
+    const variantSettings = search ? { ...settings, quality: search.quality } : settings;
+    variants = await generateResponsiveSet(backend, file, name, metadata, variantSettings, transform, {
+      signal,
+      onProgress: (progress) => onProgress?.(50 + progress / 2),
+    });
+  }
+
+  return {
+    blob: compressedFile,
+    format,
+    width,
+    height,
+    originalFormat,
+    isConverted: format !== originalFormat,
+    compressionRatio: calculateCompressionRatio(source.size, compressedFile.size),
+    gps: !metadata.hasGps ? 'none' : keepsGps(metadata, settings.metadata, compressedFile.type) ? 'kept' : 'stripped',
+    metrics,
+    candidates,
+    search,
+    variants,
+    responsiveMarkup: variants && buildPictureMarkup(variants, {
+      sizes: settings.responsive.sizes,
+      alt: stripExtension(name),
+    }),
+    decodedSource: file === typed ? undefined : file,
+  };
+};
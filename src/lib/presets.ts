@@ -0,0 +1,161 @@
+import { CompressionSettings, DEFAULT_SETTINGS, SettingsPatch, diffSettings, mergeSettings } from "./settings";
+import { CONVERSION_FORMATS, OutputFormat } from "./formats";
+
+// Bumped when a stored or shared preset would no longer mean the same thing
+export const PRESET_VERSION = 1;
+
+export const PRESET_PARAM = 'preset';
+
+const STORAGE_KEY = 'smollr-presets';
+
+export interface Preset {
+  name: string;
+  // null keeps each source's format
+  targetFormat: OutputFormat | null;
+  // Only what differs from the defaults, so a preset picks up defaults added after it was saved
+  settings: SettingsPatch;
+}
+
+export interface PresetFile {
+  version: number;
+  presets: Preset[];
+}
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    name: 'Blog hero · AVIF 1600w',
+    targetFormat: 'AVIF',
+    settings: { quality: 0.6, maxWidth: 1600, maxHeight: 4096 },
+  },
+  {
+    name: 'Product shot · lossless WebP 1200w',
+    targetFormat: 'WEBP',
+    settings: { maxWidth: 1200, maxHeight: 1200, codecs: { WEBP: { lossless: true } } },
+  },
+  {
+    name: 'Smallest that looks the same',
+    targetFormat: 'AUTO',
+    settings: { qualitySearch: 'ssim', minSsim: 0.98 },
+  },
+  {
+    name: 'Email attachment · under 200 KB',
+    targetFormat: 'JPEG',
+    settings: { qualitySearch: 'size', targetSizeMB: 0.2, maxWidth: 1920, maxHeight: 1920, metadata: { policy: 'strip' } },
+  },
+];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const createPreset = (name: string, settings: CompressionSettings, targetFormat: OutputFormat | null): Preset => ({
+  name,
+  targetFormat,
+  settings: diffSettings(DEFAULT_SETTINGS, settings),
+});
+
+export const resolvePreset = ({ settings, targetFormat }: Preset) => ({
+  settings: mergeSettings(DEFAULT_SETTINGS, settings),
+  targetFormat,
+});
+
+// Whether applying the preset would leave the current configuration unchanged
+export const matchesPreset = (preset: Preset, settings: CompressionSettings, targetFormat: OutputFormat | null): boolean => {
+  const resolved = resolvePreset(preset);
+  return resolved.targetFormat === targetFormat && JSON.stringify(resolved.settings) === JSON.stringify(settings);
+};
+
+const parseTargetFormat = (value: unknown): OutputFormat | null => {
+  if (value === null || value === undefined) return null;
+  const format = String(value).toUpperCase();
+  if (format === 'AUTO') return 'AUTO';
+  const match = CONVERSION_FORMATS.find((candidate) => candidate === format);
+  if (!match) throw new Error(`Unknown format "${value}" in preset`);
+  return match;
+};
+
+const parsePreset = (value: unknown): Preset => {
+  if (!isPlainObject(value) || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('Preset is missing a name');
+  }
+  if (value.settings !== undefined && !isPlainObject(value.settings)) {
+    throw new Error(`Preset "${value.name}" has invalid settings`);
+  }
+  return {
+    name: value.name.trim(),
+    targetFormat: parseTargetFormat(value.targetFormat),
+    settings: (value.settings ?? {}) as SettingsPatch,
+  };
+};
+
+const checkVersion = (version: unknown) => {
+  if (typeof version !== 'number' || version < 1) throw new Error('Not a smollr preset file');
+  if (version > PRESET_VERSION) throw new Error(`Presets were saved by a newer smollr (version ${version})`);
+};
+
+export const toPresetFile = (presets: Preset[]): string =>
+  JSON.stringify({ version: PRESET_VERSION, presets } satisfies PresetFile, null, 2);
+
+export const parsePresetFile = (text: string): Preset[] => {
+  const data: unknown = JSON.parse(text);
+  if (!isPlainObject(data) || !Array.isArray(data.presets)) throw new Error('Not a smollr preset file');
+  checkVersion(data.version);
+  return data.presets.map(parsePreset);
+};
+
+// Built-ins are not stored; a broken entry in storage drops the saved list rather than the app
+export const loadPresets = (): Preset[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePresetFile(stored) : [];
+  } catch (error) {
+    console.error('Error loading presets:', error);
+    return [];
+  }
+};
+
+export const savePresets = (presets: Preset[]) => {
+  localStorage.setItem(STORAGE_KEY, toPresetFile(presets));
+};
+
+// A later preset with the same name replaces the earlier one
+export const mergePresets = (existing: Preset[], added: Preset[]): Preset[] => [
+  ...existing.filter(({ name }) => !added.some((preset) => preset.name === name)),
+  ...added,
+];
+
+// base64url of the JSON, so the link survives chat apps that mangle brackets and quotes
+export const encodePresetParam = (preset: Preset): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ version: PRESET_VERSION, ...preset }));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodePresetParam = (value: string): Preset => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const data: unknown = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))));
+  if (!isPlainObject(data)) throw new Error('Not a smollr preset link');
+  checkVersion(data.version);
+  return parsePreset(data);
+};
+
+export const getPresetUrl = (preset: Preset, href = window.location.href): string => {
+  const url = new URL(href);
+  url.searchParams.set(PRESET_PARAM, encodePresetParam(preset));
+  return url.toString();
+};
+
+// A preset opened from a link; the parameter is dropped so a reload does not undo later changes
+export const takePresetFromUrl = (): Preset | null => {
+  const url = new URL(window.location.href);
+  const value = url.searchParams.get(PRESET_PARAM);
+  if (value === null) return null;
+
+  url.searchParams.delete(PRESET_PARAM);
+  window.history.replaceState(null, '', url);
+
+  try {
+    return decodePresetParam(value);
+  } catch (error) {
+    console.error('Error reading preset link:', error);
+    return null;
+  }
+};
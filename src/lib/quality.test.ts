@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  FormatCandidate,
+  computeMsSsim,
+  computePsnr,
+  computeSsim,
+  formatSearchSummary,
+  pickBestUnderSize,
+  pickSmallestCandidate,
+  toLuma,
+} from "./quality";
+
+const SIZE = 64;
+
+// Diagonal gradient with a little texture, so SSIM has structure to compare
+const gradient = (noise = 0): Float32Array =>
+  Float32Array.from({ length: SIZE * SIZE }, (_, i) => {
+    const x = i % SIZE;
+    const y = Math.floor(i / SIZE);
+    return Math.min(255, Math.max(0, x * 2 + y + ((x * 7 + y * 13) % 5) * noise));
+  });
+
+const candidate = (format: FormatCandidate['format'], bytes: number, ssim: number): FormatCandidate => ({
+  format,
+  blob: new Blob([new Uint8Array(bytes)]),
+  metrics: { ssim, msSsim: ssim, psnr: 40 },
+});
+
+describe('toLuma', () => {
+  it('composites transparent pixels over white', () => {
+    const data = new Uint8ClampedArray([0, 0, 0, 0, 0, 0, 0, 255]);
+    const luma = toLuma({ data, width: 2, height: 1 });
+    expect(luma[0]).toBeCloseTo(255);
+    expect(luma[1]).toBeCloseTo(0);
+  });
+});
+
+describe('metrics', () => {
+  const source = gradient();
+
+  it('scores identical images as perfect', () => {
+    expect(computeSsim(source, source, SIZE, SIZE)).toBeCloseTo(1);
+    expect(computeMsSsim(source, source, SIZE, SIZE)).toBeCloseTo(1);
+    expect(computePsnr(source, source)).toBe(100);
+  });
+
+  it('scores more distortion lower', () => {
+    const slight = gradient(2);
+    const heavy = gradient(12);
+    expect(computeSsim(source, slight, SIZE, SIZE)).toBeGreaterThan(computeSsim(source, heavy, SIZE, SIZE));
+    expect(computeMsSsim(source, slight, SIZE, SIZE)).toBeGreaterThan(computeMsSsim(source, heavy, SIZE, SIZE));
+    expect(computePsnr(source, slight)).toBeGreaterThan(computePsnr(source, heavy));
+  });
+
+  it('handles images smaller than a window', () => {
+    const tiny = Float32Array.from([10, 20, 30, 40]);
+    expect(computeSsim(tiny, tiny, 2, 2)).toBeCloseTo(1);
+  });
+});
+
+describe('candidate selection', () => {
+  const candidates = [candidate('AVIF', 100, 0.96), candidate('WEBP', 150, 0.98), candidate('JPEG', 300, 0.99)];
+
+  it('picks the smallest candidate that clears the SSIM floor', () => {
+    expect(pickSmallestCandidate(candidates, 0.97).format).toBe('WEBP');
+    expect(pickSmallestCandidate(candidates, 0.995).format).toBe('JPEG');
+  });
+
+  it('picks the most faithful candidate that fits, else the smallest', () => {
+    expect(pickBestUnderSize(candidates, 200).format).toBe('WEBP');
+    expect(pickBestUnderSize(candidates, 50).format).toBe('AVIF');
+  });
+
+  it('summarises a search', () => {
+    expect(formatSearchSummary({ quality: 0.72, iterations: 1, met: true })).toBe('Quality 72% after 1 try');
+    expect(formatSearchSummary({ quality: 0.3, iterations: 7, met: false })).toBe('Quality 30% after 7 tries, target missed');
+  });
+});
@@ -0,0 +1,212 @@
+import { ConversionFormat } from "./formats";
+
+// SSIM constants for 8-bit data: (k1 * L)^2 and (k2 * L)^2 with L = 255
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+const WINDOW = 8;
+
+// Metrics run on a downscaled copy to keep large images responsive
+export const METRIC_SIZE = 1024;
+
+export const toLuma = ({ data, width, height }: Pick<ImageData, 'data' | 'width' | 'height'>): Float32Array => {
+  const luma = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    // Composite over white so transparent regions compare as they are displayed
+    const alpha = data[i + 3] / 255;
+    const r = data[i] * alpha + 255 * (1 - alpha);
+    const g = data[i + 1] * alpha + 255 * (1 - alpha);
+    const b = data[i + 2] * alpha + 255 * (1 - alpha);
+    luma[p] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+  return luma;
+};
+
+interface WindowStats {
+  luminance: number;
+  contrastStructure: number;
+}
+
+const computeWindowStats = (
+  a: Float32Array,
+  b: Float32Array,
+  stride: number,
+  x0: number,
+  y0: number,
+  w: number,
+  h: number,
+): WindowStats => {
+  const n = w * h;
+  let sumA = 0;
+  let sumB = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      sumA += a[y * stride + x];
+      sumB += b[y * stride + x];
+    }
+  }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+
+  let varA = 0;
+  let varB = 0;
+  let cov = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const da = a[y * stride + x] - meanA;
+      const db = b[y * stride + x] - meanB;
+      varA += da * da;
+      varB += db * db;
+      cov += da * db;
+    }
+  }
+  varA /= n - 1 || 1;
+  varB /= n - 1 || 1;
+  cov /= n - 1 || 1;
+
+  return {
+    luminance: (2 * meanA * meanB + C1) / (meanA ** 2 + meanB ** 2 + C1),
+    contrastStructure: (2 * cov + C2) / (varA + varB + C2),
+  };
+};
+
+// Means over 8x8 windows with a stride of half a window; SSIM is averaged per window, not multiplied afterwards
+const computeMeanStats = (a: Float32Array, b: Float32Array, width: number, height: number) => {
+  if (width < WINDOW || height < WINDOW) {
+    const { luminance, contrastStructure } = computeWindowStats(a, b, width, 0, 0, width, height);
+    return { ssim: luminance * contrastStructure, contrastStructure };
+  }
+
+  let ssim = 0;
+  let contrastStructure = 0;
+  let count = 0;
+  const step = WINDOW / 2;
+  for (let y = 0; y + WINDOW <= height; y += step) {
+    for (let x = 0; x + WINDOW <= width; x += step) {
+      const stats = computeWindowStats(a, b, width, x, y, WINDOW, WINDOW);
+      ssim += stats.luminance * stats.contrastStructure;
+      contrastStructure += stats.contrastStructure;
+      count++;
+    }
+  }
+  return { ssim: ssim / count, contrastStructure: contrastStructure / count };
+};
+
+export const computeSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number =>
+  computeMeanStats(a, b, width, height).ssim;
+
+// Weights from Wang, Simoncelli and Bovik's MS-SSIM paper, finest scale first
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
+
+const halve = (luma: Float32Array, width: number, height: number): Float32Array => {
+  const w = Math.floor(width / 2);
+  const h = Math.floor(height / 2);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = 2 * y * width + 2 * x;
+      out[y * w + x] = (luma[i] + luma[i + 1] + luma[i + width] + luma[i + width + 1]) / 4;
+    }
+  }
+  return out;
+};
+
+// Structure is compared at every scale and brightness only at the coarsest. Small images run out of
+// scales early, so the weights of the scales that fit are renormalised to sum to one.
+export const computeMsSsim = (a: Float32Array, b: Float32Array, width: number, height: number): number => {
+  let scales = 1;
+  while (scales < MS_SSIM_WEIGHTS.length && Math.min(width, height) >> scales >= WINDOW) scales++;
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales);
+  const weightSum = weights.reduce((acc, weight) => acc + weight, 0);
+
+  let result = 1;
+  for (const [scale, weight] of weights.entries()) {
+    const { ssim, contrastStructure } = computeMeanStats(a, b, width, height);
+    const value = scale === scales - 1 ? ssim : contrastStructure;
+    result *= Math.max(0, value) ** (weight / weightSum);
+    if (scale < scales - 1) {
+      a = halve(a, width, height);
+      b = halve(b, width, height);
+      width = Math.floor(width / 2);
+      height = Math.floor(height / 2);
+    }
+  }
+  return result;
+};
+
+// Identical images would score Infinity, which JSON reports cannot hold
+const MAX_PSNR = 100;
+
+export const computePsnr = (a: Float32Array, b: Float32Array): number => {
+  let squaredError = 0;
+  for (let i = 0; i < a.length; i++) squaredError += (a[i] - b[i]) ** 2;
+  const mse = squaredError / a.length;
+  return mse === 0 ? MAX_PSNR : Math.min(MAX_PSNR, 10 * Math.log10((255 * 255) / mse));
+};
+
+export interface QualityMetrics {
+  ssim: number;
+  msSsim: number;
+  // Decibels on luma
+  psnr: number;
+}
+
+export const computeQualityMetrics = (a: Float32Array, b: Float32Array, width: number, height: number): QualityMetrics => ({
+  ssim: computeSsim(a, b, width, height),
+  msSsim: computeMsSsim(a, b, width, height),
+  psnr: computePsnr(a, b),
+});
+
+export const formatQualityMetrics = ({ ssim, msSsim, psnr }: QualityMetrics): string =>
+  `SSIM ${ssim.toFixed(3)} · MS-SSIM ${msSsim.toFixed(3)} · PSNR ${psnr.toFixed(1)} dB`;
+
+// ssim finds the smallest file that keeps minSsim, size the best quality that fits targetSizeMB
+export type QualitySearchMode = 'off' | 'ssim' | 'size';
+
+export interface SearchStep {
+  format: ConversionFormat;
+  iteration: number;
+  quality: number;
+  bytes: number;
+  // Only measured when searching for an SSIM target
+  ssim?: number;
+  passed: boolean;
+}
+
+export interface QualitySearchSummary {
+  quality: number;
+  iterations: number;
+  // False when no quality reached the target; the closest attempt is kept then
+  met: boolean;
+}
+
+export const formatSearchStep = ({ format, iteration, quality, bytes, ssim, passed }: SearchStep): string =>
+  `${format} try ${iteration}: quality ${Math.round(quality * 100)}%, ${Math.round(bytes / 1024)} KB` +
+  `${ssim === undefined ? '' : `, SSIM ${ssim.toFixed(3)}`} ${passed ? '✓' : '✗'}`;
+
+export const formatSearchSummary = ({ quality, iterations, met }: QualitySearchSummary): string =>
+  `Quality ${Math.round(quality * 100)}% after ${iterations} ${iterations === 1 ? 'try' : 'tries'}${met ? '' : ', target missed'}`;
+
+export interface FormatCandidate {
+  format: ConversionFormat;
+  blob: Blob;
+  metrics: QualityMetrics;
+  search?: QualitySearchSummary;
+}
+
+// Smallest candidate that clears the floor; if none does, the most faithful one
+export const pickSmallestCandidate = (candidates: FormatCandidate[], minSsim: number): FormatCandidate => {
+  const passing = candidates.filter((candidate) => candidate.metrics.ssim >= minSsim);
+  if (passing.length > 0) {
+    return passing.reduce((best, candidate) => (candidate.blob.size < best.blob.size ? candidate : best));
+  }
+  return candidates.reduce((best, candidate) => (candidate.metrics.ssim > best.metrics.ssim ? candidate : best));
+};
+
+// Most faithful candidate that fits; if none does, the smallest
+export const pickBestUnderSize = (candidates: FormatCandidate[], maxBytes: number): FormatCandidate => {
+  const fitting = candidates.filter((candidate) => candidate.blob.size <= maxBytes);
+  if (fitting.length > 0) {
+    return fitting.reduce((best, candidate) => (candidate.metrics.ssim > best.metrics.ssim ? candidate : best));
+  }
+  return candidates.reduce((best, candidate) => (candidate.blob.size < best.blob.size ? candidate : best));
+};
@@ -0,0 +1,122 @@
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job<T> {
+  id: string;
+  input: T;
+  status: JobStatus;
+  progress: number;
+  // What the job is doing right now, for jobs that report more than a percentage
+  step?: string;
+  error?: string;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  onProgress: (progress: number) => void;
+  onStep: (step: string) => void;
+}
+
+interface QueueOptions<T, R> {
+  concurrency: number;
+  run: (input: T, context: JobContext) => Promise<R>;
+  onChange: (jobs: Job<T>[]) => void;
+  onComplete: (job: Job<T>, result: R) => void;
+}
+
+export const createQueue = <T, R>({ concurrency: initialConcurrency, run, onChange, onComplete }: QueueOptions<T, R>) => {
+  let jobs: Job<T>[] = [];
+  let concurrency = initialConcurrency;
+  let running = 0;
+  const controllers = new Map<string, AbortController>();
+
+  const getJob = (id: string) => jobs.find((job) => job.id === id);
+
+  const update = (id: string, patch: Partial<Job<T>>) => {
+    jobs = jobs.map((job) => (job.id === id ? { ...job, ...patch } : job));
+    onChange(jobs);
+  };
+
+  const start = async (job: Job<T>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    running++;
+    update(job.id, { status: 'running', progress: 0, step: undefined, error: undefined });
+
+    try {
+      const result = await run(job.input, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (!controller.signal.aborted) update(job.id, { progress });
+        },
+        onStep: (step) => {
+          if (!controller.signal.aborted) update(job.id, { step });
+        },
+      });
+      // A cancelled job may still resolve if its work could not be interrupted
+      if (!controller.signal.aborted) {
+        const finished = { ...job, status: 'done' as const, progress: 100 };
+        jobs = jobs.filter(({ id }) => id !== job.id);
+        onChange(jobs);
+        onComplete(finished, result);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        update(job.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      if (controllers.get(job.id) === controller) controllers.delete(job.id);
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency) {
+      const next = jobs.find((job) => job.status === 'queued');
+      if (!next) return;
+      start(next);
+    }
+  };
+
+  return {
+    add(inputs: T[]): string[] {
+      const added = inputs.map((input): Job<T> => ({
+        id: crypto.randomUUID(),
+        input,
+        status: 'queued',
+        progress: 0,
+      }));
+      jobs = [...jobs, ...added];
+      onChange(jobs);
+      pump();
+      return added.map(({ id }) => id);
+    },
+
+    cancel(id: string) {
+      const job = getJob(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return;
+      controllers.get(id)?.abort();
+      update(id, { status: 'cancelled' });
+    },
+
+    retry(id: string) {
+      const job = getJob(id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'queued', progress: 0, step: undefined, error: undefined });
+      pump();
+    },
+
+    remove(id: string) {
+      if (getJob(id)?.status === 'running') return;
+      jobs = jobs.filter((job) => job.id !== id);
+      onChange(jobs);
+    },
+
+    setConcurrency(value: number) {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+};
+
+export type Queue<T, R> = ReturnType<typeof createQueue<T, R>>;
@@ -0,0 +1,37 @@
+import { ConversionFormat } from "./formats";
+import { ImageTransform, getTransformGeometry, isIdentityTransform } from "./transform";
+
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Shared by the encode worker and the main-thread fallback so both produce the same pixels
+export const renderForEncoding = (
+  ctx: Canvas2D,
+  bitmap: ImageBitmap,
+  format: ConversionFormat,
+  width: number,
+  height: number,
+  transform?: ImageTransform,
+) => {
+  // JPEG has no alpha channel; without a backdrop transparent pixels turn black
+  if (format === 'JPEG') {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.imageSmoothingQuality = 'high';
+  if (!transform || isIdentityTransform(transform)) {
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return;
+  }
+
+  const { rotatedWidth, rotatedHeight, crop } = getTransformGeometry(bitmap.width, bitmap.height, transform);
+  ctx.save();
+  // Map the crop rect of the rotated frame onto the whole canvas...
+  ctx.scale(width / crop.width, height / crop.height);
+  ctx.translate(-crop.x, -crop.y);
+  // ...then rotate and mirror the bitmap around the centre of that frame
+  ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  ctx.scale(transform.flipHorizontal ? -1 : 1, transform.flipVertical ? -1 : 1);
+  ctx.rotate((transform.rotate * Math.PI) / 180);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+  ctx.restore();
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseBudgetRules } from "./budget";
+import { ReportInput, buildReport, hasReportFailures, toJUnitReport } from "./report";
+
+const output = (fileName: string, bytes: number) => ({ fileName, format: 'WEBP', width: 100, height: 50, bytes });
+
+const inputs: ReportInput[] = [
+  { path: 'a.png', originalFormat: 'PNG', originalBytes: 1000, outputs: [output('a.webp', 400), output('a-64w.webp', 100)] },
+  { path: 'b & c.png', originalFormat: 'PNG', originalBytes: 1000, outputs: [output('b & c.webp', 900)] },
+  { path: 'broken.png', originalFormat: '', originalBytes: 0, outputs: [], error: 'Unsupported <file>' },
+];
+
+describe('buildReport', () => {
+  it('totals main outputs of the files that were optimized', () => {
+    const { totals } = buildReport(inputs, []);
+    expect(totals).toEqual({
+      files: 3,
+      originalBytes: 2000,
+      optimizedBytes: 1300,
+      savedPercent: 35,
+      violations: 0,
+      errors: 1,
+    });
+  });
+
+  it('checks budgets on every output but not on failed files', () => {
+    const report = buildReport(inputs, parseBudgetRules('*.png 500B'));
+    expect(report.files.map(({ violations }) => violations.map(({ fileName }) => fileName))).toEqual([
+      [],
+      ['b & c.webp'],
+      [],
+    ]);
+    expect(hasReportFailures(report)).toBe(true);
+  });
+
+  it('passes when nothing failed', () => {
+    expect(hasReportFailures(buildReport(inputs.slice(0, 1), parseBudgetRules('*.png 1KB')))).toBe(false);
+  });
+});
+
+describe('toJUnitReport', () => {
+  it('writes one escaped test case per file with failures and errors counted', () => {
+    const xml = toJUnitReport(buildReport(inputs, parseBudgetRules('*.png 500B')));
+    expect(xml).toContain('<testsuites name="smollr" tests="3" failures="1" errors="1">');
+    expect(xml).toContain('<testcase classname="smollr" name="b &amp; c.png">');
+    expect(xml).toContain('<failure message="b &amp; c.webp is 900 bytes, over the *.png 500B budget by 400 bytes" type="budget"/>');
+    expect(xml).toContain('<error message="Unsupported &lt;file&gt;"/>');
+  });
+});
@@ -0,0 +1,113 @@
+import { BudgetRule, BudgetViolation, checkBudgets } from "./budget";
+import { OptimizationResult, calculateCompressionRatio } from "./pipeline";
+import { QualityMetrics } from "./quality";
+
+export interface ReportOutput {
+  fileName: string;
+  format: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export interface ReportInput {
+  path: string;
+  originalFormat: string;
+  originalBytes: number;
+  outputs: ReportOutput[];
+  // Main output against the source
+  metrics?: QualityMetrics;
+  // Set when the file could not be optimized; it is reported as an error, not a budget failure
+  error?: string;
+}
+
+export interface ReportFile extends ReportInput {
+  violations: BudgetViolation[];
+}
+
+export interface OptimizationReport {
+  generatedAt: string;
+  budgets: BudgetRule[];
+  totals: {
+    files: number;
+    originalBytes: number;
+    optimizedBytes: number;
+    savedPercent: number;
+    violations: number;
+    errors: number;
+  };
+  files: ReportFile[];
+}
+
+// The main output first, then every responsive variant
+export const getReportOutputs = (fileName: string, result: OptimizationResult): ReportOutput[] => [
+  { fileName, format: result.format, width: result.width, height: result.height, bytes: result.blob.size },
+  ...(result.variants ?? []).map(({ fileName, format, width, height, blob }) => ({
+    fileName,
+    format,
+    width,
+    height,
+    bytes: blob.size,
+  })),
+];
+
+export const buildReport = (inputs: ReportInput[], budgets: BudgetRule[]): OptimizationReport => {
+  const files = inputs.map((input) => ({
+    ...input,
+    violations: input.error ? [] : checkBudgets(input.path, input.outputs, budgets),
+  }));
+
+  // Totals compare each source with its main output, like the app's size reduction figure
+  const optimized = files.filter(({ error, outputs }) => !error && outputs.length > 0);
+  const originalBytes = optimized.reduce((acc, file) => acc + file.originalBytes, 0);
+  const optimizedBytes = optimized.reduce((acc, file) => acc + file.outputs[0].bytes, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    budgets,
+    totals: {
+      files: files.length,
+      originalBytes,
+      optimizedBytes,
+      savedPercent: originalBytes > 0 ? calculateCompressionRatio(originalBytes, optimizedBytes) : 0,
+      violations: files.reduce((acc, file) => acc + file.violations.length, 0),
+      errors: files.filter(({ error }) => error).length,
+    },
+    files,
+  };
+};
+
+export const hasReportFailures = ({ totals }: OptimizationReport) => totals.violations > 0 || totals.errors > 0;
+
+export const toJsonReport = (report: OptimizationReport): string => JSON.stringify(report, null, 2);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// One test case per source file, so CI shows each over-budget image as its own failure
+export const toJUnitReport = (report: OptimizationReport): string => {
+  const cases = report.files.map(({ path, originalBytes, outputs, violations, error }) => {
+    const summary = outputs
+      .map(({ fileName, format, width, height, bytes }) => `${fileName}: ${format} ${width}x${height}, ${bytes} bytes`)
+      .join('\n');
+    const body = [
+      error && `<error message="${escapeXml(error)}"/>`,
+      ...violations.map(({ rule, fileName, bytes, maxBytes }) =>
+        `<failure message="${escapeXml(`${fileName} is ${bytes} bytes, over the ${rule} budget by ${bytes - maxBytes} bytes`)}" type="budget"/>`
+      ),
+      `<system-out>${escapeXml(`${path}: ${originalBytes} bytes\n${summary}`)}</system-out>`,
+    ].filter(Boolean);
+    return `    <testcase classname="smollr" name="${escapeXml(path)}">\n      ${body.join('\n      ')}\n    </testcase>`;
+  });
+
+  const failures = report.files.filter(({ violations }) => violations.length > 0).length;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="smollr" tests="${report.files.length}" failures="${failures}" errors="${report.totals.errors}">`,
+    `  <testsuite name="image budgets" tests="${report.files.length}" failures="${failures}" errors="${report.totals.errors}" timestamp="${report.generatedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { ConversionFormat } from "./formats";
+import { ResponsiveVariant, buildImageSnippet, buildPictureMarkup, getResponsiveWidths, parseWidths } from "./responsive";
+
+const variant = (fileName: string, format: ConversionFormat, width: number): ResponsiveVariant => ({
+  fileName,
+  format,
+  width,
+  height: width / 2,
+  blob: new Blob(),
+});
+
+describe('parseWidths', () => {
+  it('reads comma and space separated widths and drops the rest', () => {
+    expect(parseWidths('320, 640 1024,,abc -5')).toEqual([320, 640, 1024]);
+  });
+});
+
+describe('getResponsiveWidths', () => {
+  it('never upscales, collapsing larger widths into the source width', () => {
+    expect(getResponsiveWidths(800, [320, 640, 1024, 1920])).toEqual([320, 640, 800]);
+    expect(getResponsiveWidths(2000, [640, 320])).toEqual([320, 640]);
+  });
+});
+
+describe('buildPictureMarkup', () => {
+  it('lists smaller formats first and falls back to the largest image', () => {
+    const markup = buildPictureMarkup(
+      [variant('a-640w.jpeg', 'JPEG', 640), variant('a-320w.avif', 'AVIF', 320), variant('a-320w.jpeg', 'JPEG', 320)],
+      { sizes: '100vw', alt: 'A "quoted" alt', basePath: '/img/' },
+    );
+    expect(markup.split('\n')).toEqual([
+      '<picture>',
+      '  <source type="image/avif" srcset="/img/a-320w.avif 320w" sizes="100vw">',
+      '  <img src="/img/a-640w.jpeg" srcset="/img/a-320w.jpeg 320w, /img/a-640w.jpeg 640w" sizes="100vw"' +
+        ' width="640" height="320" alt="A &quot;quoted&quot; alt" loading="lazy" decoding="async">',
+      '</picture>',
+    ]);
+  });
+
+  it('encodes spaces, commas and quotes in file names', () => {
+    const markup = buildPictureMarkup([variant('my "pic", 1-320w.webp', 'WEBP', 320)], { sizes: '100vw' });
+    expect(markup).toContain('src="my%20%22pic%22%2C%201-320w.webp"');
+    expect(markup).toContain('srcset="my%20%22pic%22%2C%201-320w.webp 320w"');
+  });
+
+  it('is empty without variants', () => {
+    expect(buildPictureMarkup([], { sizes: '100vw' })).toBe('');
+  });
+});
+
+describe('buildImageSnippet', () => {
+  it('encodes markdown URLs and escapes HTML attributes', () => {
+    const image = { fileName: 'my photo.webp', width: 10, height: 5, alt: 'a [b]', basePath: 'img/' };
+    expect(buildImageSnippet('markdown', image)).toBe('![a \\[b\\]](img/my%20photo.webp)');
+    expect(buildImageSnippet('html', { ...image, alt: '"x"' })).toBe(
+      '<img src="img/my photo.webp" width="10" height="5" alt="&quot;x&quot;" loading="lazy" decoding="async">',
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import { ConversionFormat, getMimeType } from "./formats";
+
+export interface ResponsiveSettings {
+  enabled: boolean;
+  widths: number[];
+  formats: ConversionFormat[];
+  sizes: string;
+}
+
+export interface ResponsiveVariant {
+  fileName: string;
+  format: ConversionFormat;
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+export const DEFAULT_RESPONSIVE_SETTINGS: ResponsiveSettings = {
+  enabled: false,
+  widths: [320, 640, 1024, 1920],
+  formats: ['AVIF', 'WEBP', 'JPEG'],
+  sizes: '100vw',
+};
+
+// Browsers pick the first <source> they support, so the smallest formats go first
+const SOURCE_ORDER: ConversionFormat[] = ['AVIF', 'WEBP', 'JPEG', 'PNG'];
+
+export const parseWidths = (value: string): number[] =>
+  value
+    .split(/[\s,]+/)
+    .map((part) => parseInt(part, 10))
+    .filter((width) => Number.isFinite(width) && width > 0);
+
+// Never upscale: widths beyond the source collapse into the source width
+export const getResponsiveWidths = (sourceWidth: number, widths: number[]): number[] => {
+  const fitting = widths.filter((width) => width <= sourceWidth);
+  if (fitting.length < widths.length) fitting.push(sourceWidth);
+  return Array.from(new Set(fitting)).sort((a, b) => a - b);
+};
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+// Spaces and commas separate srcset candidates, so both are percent-encoded along with the rest
+const toUrl = (path: string) => escapeAttribute(encodeURI(path).replace(/,/g, '%2C'));
+
+export const buildPictureMarkup = (
+  variants: ResponsiveVariant[],
+  { sizes, alt = '', basePath = '' }: { sizes: string; alt?: string; basePath?: string },
+): string => {
+  const byFormat = SOURCE_ORDER
+    .map((format) => ({
+      format,
+      items: variants.filter((variant) => variant.format === format).sort((a, b) => a.width - b.width),
+    }))
+    .filter(({ items }) => items.length > 0);
+
+  if (byFormat.length === 0) return '';
+
+  const toSrcset = (items: ResponsiveVariant[]) =>
+    items.map((variant) => `${toUrl(`${basePath}${variant.fileName}`)} ${variant.width}w`).join(', ');
+
+  const fallback = byFormat[byFormat.length - 1];
+  const largest = fallback.items[fallback.items.length - 1];
+
+  const lines = ['<picture>'];
+  for (const { format, items } of byFormat.slice(0, -1)) {
+    lines.push(`  <source type="${getMimeType(format)}" srcset="${toSrcset(items)}" sizes="${escapeAttribute(sizes)}">`);
+  }
+  lines.push(
+    `  <img src="${toUrl(`${basePath}${largest.fileName}`)}" srcset="${toSrcset(fallback.items)}" sizes="${escapeAttribute(sizes)}"` +
+      ` width="${largest.width}" height="${largest.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`,
+  );
+  lines.push('</picture>');
+  return lines.join('\n');
+};
+
+export type SnippetKind = 'markdown' | 'html';
+
+// A single image reference for pasting into docs or templates
+export const buildImageSnippet = (
+  kind: SnippetKind,
+  { fileName, width, height, alt = '', basePath = '' }: { fileName: string; width: number; height: number; alt?: string; basePath?: string },
+): string => {
+  if (kind === 'markdown') {
+    return `![${alt.replace(/[[\]]/g, '\\$&')}](${encodeURI(`${basePath}${fileName}`)})`;
+  }
+  return `<img src="${escapeAttribute(`${basePath}${fileName}`)}" width="${width}" height="${height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`;
+};
@@ -0,0 +1,114 @@
+import { AnimationSettings, DEFAULT_ANIMATION_SETTINGS } from "./animation";
+import { BudgetRule } from "./budget";
+import { CodecSettings, DEFAULT_CODEC_SETTINGS } from "./codecs";
+import { DEFAULT_METADATA_SETTINGS, MetadataSettings } from "./metadata";
+import { DEFAULT_RESPONSIVE_SETTINGS, ResponsiveSettings } from "./responsive";
+import { DEFAULT_SVG_SETTINGS, SvgSettings } from "./svg";
+import { QualitySearchMode } from "./quality";
+import { DEFAULT_WATERMARK_SETTINGS, WatermarkSettings } from "./watermark";
+
+export interface CompressionSettings {
+  quality: number;
+  targetSizeMB: number;
+  maxWidth: number;
+  maxHeight: number;
+  keepResolution: boolean;
+  minSsim: number;
+  // Replaces the fixed quality with a per-image search for minSsim or targetSizeMB
+  qualitySearch: QualitySearchMode;
+  responsive: ResponsiveSettings;
+  codecs: CodecSettings;
+  metadata: MetadataSettings;
+  svg: SvgSettings;
+  animation: AnimationSettings;
+  // Drawn over every raster output after resizing
+  watermark: WatermarkSettings;
+  // Checked after encoding; they never change how an image is encoded
+  budgets: BudgetRule[];
+}
+
+// Only the settings changed for one image, so later changes to the global settings still reach it
+export type SettingsOverride = SettingsPatch;
+
+export const DEFAULT_SETTINGS: CompressionSettings = {
+  quality: 0.9,
+  targetSizeMB: 2,
+  maxWidth: 2048,
+  maxHeight: 2048,
+  keepResolution: true,
+  minSsim: 0.97,
+  qualitySearch: 'off',
+  responsive: DEFAULT_RESPONSIVE_SETTINGS,
+  codecs: DEFAULT_CODEC_SETTINGS,
+  metadata: DEFAULT_METADATA_SETTINGS,
+  svg: DEFAULT_SVG_SETTINGS,
+  animation: DEFAULT_ANIMATION_SETTINGS,
+  watermark: DEFAULT_WATERMARK_SETTINGS,
+  budgets: [],
+};
+
+export const resolveSettings = (
+  global: CompressionSettings,
+  override?: SettingsOverride,
+): CompressionSettings => (override ? mergeSettings(global, override) : global);
+
+// Largest size that fits inside maxWidth x maxHeight without upscaling
+export const fitWithin = (
+  width: number,
+  height: number,
+  maxWidth: number,
+  maxHeight: number,
+): { width: number; height: number } => {
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+};
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type SettingsPatch = DeepPartial<CompressionSettings>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mergeDeep = (base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> => {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(patch)) {
+    if (!(key in base) || value === undefined) continue;
+    merged[key] = isPlainObject(base[key]) && isPlainObject(value) ? mergeDeep(base[key], value) : value;
+  }
+  return merged;
+};
+
+// Settings files only list what they change; unknown keys are ignored
+export const mergeSettings = (base: CompressionSettings, patch: SettingsPatch): CompressionSettings =>
+  mergeDeep(base as unknown as Record<string, unknown>, patch as Record<string, unknown>) as unknown as CompressionSettings;
+
+// Arrays are compared whole, like mergeSettings replaces them whole
+const diffDeep = (base: Record<string, unknown>, value: Record<string, unknown>): Record<string, unknown> => {
+  const patch: Record<string, unknown> = {};
+  for (const [key, next] of Object.entries(value)) {
+    const previous = base[key];
+    if (isPlainObject(previous) && isPlainObject(next)) {
+      const nested = diffDeep(previous, next);
+      if (Object.keys(nested).length > 0) patch[key] = nested;
+    } else if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      patch[key] = next;
+    }
+  }
+  return patch;
+};
+
+// The inverse of mergeSettings: what has to be merged into base to get value
+export const diffSettings = (base: CompressionSettings, value: CompressionSettings): SettingsPatch =>
+  diffDeep(base as unknown as Record<string, unknown>, value as unknown as Record<string, unknown>);
+
+// undefined when the image ends up with the global settings unchanged
+export const getSettingsOverride = (global: CompressionSettings, edited: CompressionSettings): SettingsOverride | undefined => {
+  const override = diffSettings(global, edited);
+  return Object.keys(override).length > 0 ? override : undefined;
+};
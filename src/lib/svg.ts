@@ -0,0 +1,74 @@
+import { ConversionFormat } from "./formats";
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+
+export interface SvgSettings {
+  // Decimal places kept in coordinates and transforms
+  precision: number;
+  // Repeat until the markup stops shrinking
+  multipass: boolean;
+  // Also export raster copies at fixed widths, for places that cannot take SVG
+  rasterize: boolean;
+  rasterFormats: ConversionFormat[];
+  rasterWidths: number[];
+}
+
+export const DEFAULT_SVG_SETTINGS: SvgSettings = {
+  precision: 3,
+  multipass: true,
+  rasterize: false,
+  rasterFormats: ['PNG', 'WEBP'],
+  rasterWidths: [64, 256, 1024],
+};
+
+export const isSvg = (file: Blob): boolean => file.type === SVG_MIME_TYPE;
+
+// SVG has no magic bytes; look for the root element near the start of the text
+export const sniffSvg = (bytes: Uint8Array): boolean => {
+  const head = new TextDecoder().decode(bytes.subarray(0, 1024));
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg[\s>]/i.test(head);
+};
+
+// svgo is large, so it is only fetched once an SVG needs it
+const loadSvgo = () => import('svgo/browser');
+
+// preset-default already strips editor namespaces and metadata, merges paths and drops unused defs
+export const minifySvg = async (markup: string, { precision, multipass }: SvgSettings): Promise<string> => {
+  const { optimize } = await loadSvgo();
+  return optimize(markup, {
+    multipass,
+    floatPrecision: precision,
+    plugins: ['preset-default'],
+  }).data;
+};
+
+// Re-serialises without changing anything, so a before/after diff lines up element by element
+export const formatSvg = async (markup: string): Promise<string> => {
+  const { optimize } = await loadSvgo();
+  return optimize(markup, { plugins: [], js2svg: { pretty: true, indent: 2 } }).data;
+};
+
+const parseLength = (value: string | undefined): number | null => {
+  const match = value && /^\s*(\d+(?:\.\d+)?)(px)?\s*$/.exec(value);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// Intrinsic size from width/height, falling back to the viewBox and then the CSS default for replaced elements
+export const getSvgSize = (markup: string): { width: number; height: number } => {
+  const root = /<svg\b[^>]*>/i.exec(markup)?.[0] ?? '';
+  const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(root)?.[1];
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const boxWidth = viewBox?.length === 4 ? viewBox[2] : null;
+  const boxHeight = viewBox?.length === 4 ? viewBox[3] : null;
+
+  let width = parseLength(attribute('width'));
+  let height = parseLength(attribute('height'));
+  if (boxWidth && boxHeight) {
+    if (width && !height) height = (width * boxHeight) / boxWidth;
+    if (height && !width) width = (height * boxWidth) / boxHeight;
+  }
+  return {
+    width: Math.max(1, Math.round(width ?? boxWidth ?? 300)),
+    height: Math.max(1, Math.round(height ?? boxHeight ?? 150)),
+  };
+};
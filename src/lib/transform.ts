@@ -0,0 +1,114 @@
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type FitMode = 'cover' | 'contain' | 'fill';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Stored with each image and replayed on the original file, so edits never compound
+export interface ImageTransform {
+  // Clockwise, applied before flipping
+  rotate: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  // Width / height of the crop; null keeps the full frame
+  aspectRatio: number | null;
+  // Exact output box; null leaves sizing to the max width/height settings
+  resize: { width: number; height: number; fit: FitMode } | null;
+  // 0-1 within the rotated image; crops keep this point as central as they can
+  focalPoint: { x: number; y: number };
+}
+
+export interface TransformGeometry {
+  // Size after rotation, the space crops and focal points are expressed in
+  rotatedWidth: number;
+  rotatedHeight: number;
+  crop: Rect;
+  // Natural output size before any max width/height limit
+  width: number;
+  height: number;
+}
+
+export interface CropPreset {
+  label: string;
+  aspectRatio: number | null;
+  resize?: ImageTransform['resize'];
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = {
+  rotate: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  aspectRatio: null,
+  resize: null,
+  focalPoint: { x: 0.5, y: 0.5 },
+};
+
+export const FIT_MODES: FitMode[] = ['cover', 'contain', 'fill'];
+
+export const CROP_PRESETS: CropPreset[] = [
+  { label: 'Free', aspectRatio: null },
+  { label: '1:1', aspectRatio: 1 },
+  { label: '4:3', aspectRatio: 4 / 3 },
+  { label: '3:2', aspectRatio: 3 / 2 },
+  { label: '16:9', aspectRatio: 16 / 9 },
+  { label: '9:16', aspectRatio: 9 / 16 },
+  // Same card size as scripts/generate-favicons.js produces
+  { label: 'OG 1200×630', aspectRatio: 1200 / 630, resize: { width: 1200, height: 630, fit: 'cover' } },
+];
+
+export const isIdentityTransform = (transform?: ImageTransform | null): boolean =>
+  !transform ||
+  (transform.rotate === 0 &&
+    !transform.flipHorizontal &&
+    !transform.flipVertical &&
+    transform.aspectRatio === null &&
+    transform.resize === null);
+
+// Largest rect of the given ratio inside the frame, shifted toward the focal point without leaving it
+const cropAround = (width: number, height: number, ratio: number, { x, y }: ImageTransform['focalPoint']): Rect => {
+  const cropWidth = Math.min(width, Math.round(height * ratio));
+  const cropHeight = Math.min(height, Math.round(width / ratio));
+  const clamp = (value: number, max: number) => Math.min(Math.max(0, Math.round(value)), max);
+  return {
+    x: clamp(x * width - cropWidth / 2, width - cropWidth),
+    y: clamp(y * height - cropHeight / 2, height - cropHeight),
+    width: Math.max(1, cropWidth),
+    height: Math.max(1, cropHeight),
+  };
+};
+
+export const getTransformGeometry = (
+  sourceWidth: number,
+  sourceHeight: number,
+  { rotate, aspectRatio, resize, focalPoint }: ImageTransform,
+): TransformGeometry => {
+  const quarterTurn = rotate % 180 !== 0;
+  const rotatedWidth = quarterTurn ? sourceHeight : sourceWidth;
+  const rotatedHeight = quarterTurn ? sourceWidth : sourceHeight;
+
+  // Cover fills the box exactly, so it crops to the box's ratio rather than the preset's
+  const ratio = resize?.fit === 'cover' ? resize.width / resize.height : aspectRatio;
+  const crop = ratio
+    ? cropAround(rotatedWidth, rotatedHeight, ratio, focalPoint)
+    : { x: 0, y: 0, width: rotatedWidth, height: rotatedHeight };
+
+  if (!resize) {
+    return { rotatedWidth, rotatedHeight, crop, width: crop.width, height: crop.height };
+  }
+  if (resize.fit === 'contain') {
+    const scale = Math.min(resize.width / crop.width, resize.height / crop.height);
+    return {
+      rotatedWidth,
+      rotatedHeight,
+      crop,
+      width: Math.max(1, Math.round(crop.width * scale)),
+      height: Math.max(1, Math.round(crop.height * scale)),
+    };
+  }
+  return { rotatedWidth, rotatedHeight, crop, width: resize.width, height: resize.height };
+};
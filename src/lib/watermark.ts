@@ -0,0 +1,197 @@
+import type { Canvas2D } from "./render";
+
+export type WatermarkKind = 'none' | 'text' | 'logo';
+
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export const WATERMARK_KINDS: WatermarkKind[] = ['none', 'text', 'logo'];
+
+// Reading order, so the picker can lay them out as a 3 x 3 grid
+export const WATERMARK_POSITIONS: WatermarkPosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export interface WatermarkSettings {
+  kind: WatermarkKind;
+  text: string;
+  color: string;
+  // PNG data URL, so the logo travels with presets, history and worker messages
+  logo: string | null;
+  position: WatermarkPosition;
+  // Fraction of the shorter side kept clear between the overlay and the edge, and between tiles
+  margin: number;
+  opacity: number;
+  // Overlay width as a fraction of the image width
+  scale: number;
+  // Repeat the overlay across the whole image instead of placing it once
+  tiled: boolean;
+}
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  kind: 'none',
+  text: '© Preview',
+  color: '#ffffff',
+  logo: null,
+  position: 'bottom-right',
+  margin: 0.03,
+  opacity: 0.5,
+  scale: 0.25,
+  tiled: false,
+};
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// Used where text cannot be measured (the Node backend), as a share of the font size per character
+const AVERAGE_CHARACTER_WIDTH = 0.6;
+
+// Logos are stored at most this wide; larger uploads only bloat presets and history
+const MAX_LOGO_SIZE = 1024;
+
+export const hasWatermark = (watermark?: WatermarkSettings): watermark is WatermarkSettings =>
+  !!watermark &&
+  ((watermark.kind === 'text' && watermark.text.trim() !== '') || (watermark.kind === 'logo' && watermark.logo !== null));
+
+export interface OverlayPlacement {
+  x: number;
+  y: number;
+}
+
+// Overlay size for an image, given the overlay's own height / width
+export const getOverlaySize = (imageWidth: number, { scale }: WatermarkSettings, aspectRatio: number) => {
+  const width = Math.max(1, Math.round(imageWidth * scale));
+  return { width, height: Math.max(1, Math.round(width * aspectRatio)) };
+};
+
+// Top-left corners for every copy of the overlay. Tiles are laid out in rows, every other row shifted
+// by half a step, starting off-canvas so partly visible copies cover the edges too.
+export const getOverlayPlacements = (
+  imageWidth: number,
+  imageHeight: number,
+  overlayWidth: number,
+  overlayHeight: number,
+  { position, margin, tiled }: WatermarkSettings,
+): OverlayPlacement[] => {
+  const gap = Math.round(Math.min(imageWidth, imageHeight) * margin);
+
+  if (tiled) {
+    const stepX = overlayWidth + Math.max(gap, Math.round(overlayWidth / 2));
+    const stepY = overlayHeight + Math.max(gap, overlayHeight);
+    const placements: OverlayPlacement[] = [];
+    for (let row = 0, y = gap; y < imageHeight; row++, y += stepY) {
+      for (let x = (row % 2 === 1 ? stepX / 2 : 0) - stepX + gap; x < imageWidth; x += stepX) {
+        if (x + overlayWidth > 0) placements.push({ x: Math.round(x), y });
+      }
+    }
+    return placements;
+  }
+
+  const column = position.endsWith('left') ? 0 : position.endsWith('right') ? 2 : 1;
+  const row = position.startsWith('top') ? 0 : position.startsWith('bottom') ? 2 : 1;
+  const along = (index: number, size: number, overlay: number) =>
+    index === 0 ? gap : index === 2 ? size - overlay - gap : Math.round((size - overlay) / 2);
+  return [{ x: along(column, imageWidth, overlayWidth), y: along(row, imageHeight, overlayHeight) }];
+};
+
+const getFont = (size: number) => `bold ${size}px ${FONT_FAMILY}`;
+
+// Draws after the image has been rendered at its output size, so the overlay is never resampled
+export const drawWatermark = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  watermark: WatermarkSettings,
+  logo: ImageBitmap | null,
+) => {
+  if (!hasWatermark(watermark)) return;
+  ctx.save();
+  ctx.globalAlpha = watermark.opacity;
+
+  if (watermark.kind === 'logo') {
+    if (logo) {
+      const size = getOverlaySize(width, watermark, logo.height / logo.width);
+      for (const { x, y } of getOverlayPlacements(width, height, size.width, size.height, watermark)) {
+        ctx.drawImage(logo, x, y, size.width, size.height);
+      }
+    }
+  } else {
+    // Measure at a reference size, then pick the font size that gives the requested width
+    ctx.font = getFont(100);
+    const fontSize = (getOverlaySize(width, watermark, 1).width / Math.max(1, ctx.measureText(watermark.text).width)) * 100;
+    ctx.font = getFont(fontSize);
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = watermark.color;
+    const textWidth = Math.round(ctx.measureText(watermark.text).width);
+    for (const { x, y } of getOverlayPlacements(width, height, textWidth, Math.round(fontSize), watermark)) {
+      ctx.fillText(watermark.text, x, y);
+    }
+  }
+
+  ctx.restore();
+};
+
+export const loadWatermarkLogo = async ({ kind, logo }: WatermarkSettings): Promise<ImageBitmap | null> => {
+  if (kind !== 'logo' || !logo) return null;
+  return createImageBitmap(await (await fetch(logo)).blob());
+};
+
+// Loads the logo for a single draw; animations load it once and call drawWatermark per frame
+export const applyWatermark = async (ctx: Canvas2D, width: number, height: number, watermark?: WatermarkSettings) => {
+  if (!hasWatermark(watermark)) return;
+  const logo = await loadWatermarkLogo(watermark);
+  drawWatermark(ctx, width, height, watermark, logo);
+  logo?.close();
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// The same layout as an SVG for backends that composite rather than draw; text width is estimated
+// and then enforced with textLength, so placement matches even without font metrics
+export const buildWatermarkSvg = (
+  width: number,
+  height: number,
+  watermark: WatermarkSettings,
+  logoSize: { width: number; height: number } | null,
+): string => {
+  let items: string[] = [];
+  if (watermark.kind === 'logo' && watermark.logo && logoSize) {
+    const size = getOverlaySize(width, watermark, logoSize.height / logoSize.width);
+    items = getOverlayPlacements(width, height, size.width, size.height, watermark).map(({ x, y }) =>
+      `<image href="${watermark.logo}" x="${x}" y="${y}" width="${size.width}" height="${size.height}" preserveAspectRatio="none"/>`);
+  } else if (watermark.kind === 'text') {
+    const text = escapeXml(watermark.text);
+    const size = getOverlaySize(width, watermark, 1 / (AVERAGE_CHARACTER_WIDTH * Math.max(1, watermark.text.length)));
+    items = getOverlayPlacements(width, height, size.width, size.height, watermark).map(({ x, y }) =>
+      `<text x="${x}" y="${y}" font-size="${size.height}" textLength="${size.width}" lengthAdjust="spacing" dominant-baseline="hanging">${text}</text>`);
+  }
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+    `<g opacity="${watermark.opacity}" fill="${escapeXml(watermark.color)}" font-weight="bold" font-family="${escapeXml(FONT_FAMILY)}">` +
+    `${items.join('')}</g></svg>`;
+};
+
+// createImageBitmap cannot decode SVG inside workers, so uploads are flattened to PNG up front
+export const readWatermarkLogo = async (file: Blob): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const naturalWidth = image.naturalWidth || MAX_LOGO_SIZE;
+    const naturalHeight = image.naturalHeight || MAX_LOGO_SIZE;
+    const scale = Math.min(1, MAX_LOGO_SIZE / Math.max(naturalWidth, naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,107 @@
+export type WorkerMessage<Res> =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: Res }
+  | { id: number; type: 'error'; message: string };
+
+export interface WorkerTask<Req> {
+  id: number;
+  request: Req;
+}
+
+interface PendingTask<Req, Res> {
+  id: number;
+  request: Req;
+  transfer: Transferable[];
+  resolve: (result: Res) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: number) => void;
+}
+
+interface RunOptions {
+  transfer?: Transferable[];
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+export const createWorkerPool = <Req, Res>(createWorker: () => Worker, size: number) => {
+  const idle: Worker[] = [];
+  const busy = new Map<Worker, PendingTask<Req, Res>>();
+  const backlog: PendingTask<Req, Res>[] = [];
+  let nextId = 0;
+
+  const release = (worker: Worker) => {
+    busy.delete(worker);
+    idle.push(worker);
+    dispatch();
+  };
+
+  // Terminating is the only way to stop an encode that is already running
+  const discard = (worker: Worker) => {
+    busy.delete(worker);
+    worker.terminate();
+    dispatch();
+  };
+
+  const spawn = (): Worker => {
+    const worker = createWorker();
+    worker.onmessage = (event: MessageEvent<WorkerMessage<Res>>) => {
+      const task = busy.get(worker);
+      const message = event.data;
+      if (!task || message.id !== task.id) return;
+
+      if (message.type === 'progress') {
+        task.onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        release(worker);
+        task.resolve(message.result);
+      } else {
+        release(worker);
+        task.reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      const task = busy.get(worker);
+      discard(worker);
+      task?.reject(new Error(event.message || 'Worker crashed'));
+    };
+    return worker;
+  };
+
+  const dispatch = () => {
+    while (backlog.length > 0) {
+      const worker = idle.pop() ?? (busy.size < size ? spawn() : undefined);
+      if (!worker) return;
+      const task = backlog.shift()!;
+      busy.set(worker, task);
+      const message: WorkerTask<Req> = { id: task.id, request: task.request };
+      worker.postMessage(message, task.transfer);
+    }
+  };
+
+  return {
+    run(request: Req, { transfer = [], signal, onProgress }: RunOptions = {}): Promise<Res> {
+      return new Promise<Res>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+
+        const task: PendingTask<Req, Res> = { id: nextId++, request, transfer, resolve, reject, onProgress };
+
+        signal?.addEventListener('abort', () => {
+          const queued = backlog.indexOf(task);
+          if (queued !== -1) {
+            backlog.splice(queued, 1);
+          } else {
+            const worker = Array.from(busy.entries()).find(([, pending]) => pending === task)?.[0];
+            if (worker) discard(worker);
+          }
+          reject(signal.reason);
+        }, { once: true });
+
+        backlog.push(task);
+        dispatch();
+      });
+    },
+  };
+};
@@ -0,0 +1,20 @@
+import { zip } from "fflate";
+
+export interface ArchiveEntry {
+  path: string;
+  blob: Blob;
+}
+
+export const createZip = async (entries: ArchiveEntry[]): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+  for (const entry of entries) {
+    files[entry.path] = new Uint8Array(await entry.blob.arrayBuffer());
+  }
+
+  // Images are already compressed, so store them instead of deflating again
+  const data = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, { level: 0 }, (error, result) => (error ? reject(error) : resolve(result)));
+  });
+
+  return new Blob([data], { type: 'application/zip' });
+};
@@ -0,0 +1,206 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import sharp, { Sharp } from "sharp";
+import { CONVERSION_FORMATS, ConversionFormat, getMimeType, sniffFormat } from "../lib/formats";
+import { CodecSettings, DEFAULT_CODEC_SETTINGS } from "../lib/codecs";
+import { METRIC_SIZE, computeQualityMetrics, toLuma } from "../lib/quality";
+import { ImageTransform, getTransformGeometry, isIdentityTransform } from "../lib/transform";
+import { getSvgSize, isSvg } from "../lib/svg";
+import { WatermarkSettings, buildWatermarkSvg, hasWatermark } from "../lib/watermark";
+import { decodeToPng } from "../lib/decode";
+import type { EncodeOptions } from "../lib/encode";
+import type { ImageBackend } from "../lib/pipeline";
+
+const load = async (blob: Blob): Promise<Sharp> =>
+  // rotate() with no angle applies EXIF orientation, matching the browser decoders
+  sharp(Buffer.from(await blob.arrayBuffer())).rotate();
+
+// SVG renders at 72 DPI by default; raise the density so the target width is drawn, not upscaled
+const loadSvg = async (blob: Blob, width?: number): Promise<Sharp> => {
+  const markup = await blob.text();
+  const density = width ? (72 * width) / getSvgSize(markup).width : 72;
+  return sharp(Buffer.from(markup), { density });
+};
+
+// sharp mirrors before it rotates, so for quarter turns the flip axes swap to match the browser's order
+const applyTransform = async (blob: Blob, transform: ImageTransform): Promise<Sharp> => {
+  const { rotate, flipHorizontal, flipVertical } = transform;
+  const quarterTurn = rotate % 180 !== 0;
+  const { data, info } = await sharp(Buffer.from(await blob.arrayBuffer()))
+    .autoOrient()
+    .flop(quarterTurn ? flipVertical : flipHorizontal)
+    .flip(quarterTurn ? flipHorizontal : flipVertical)
+    .rotate(rotate)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { crop } = getTransformGeometry(
+    quarterTurn ? info.height : info.width,
+    quarterTurn ? info.width : info.height,
+    transform,
+  );
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .extract({ left: crop.x, top: crop.y, width: crop.width, height: crop.height });
+};
+
+// Composited as one SVG the size of the output, laid out by the same code the browser draws with
+const addWatermark = async (image: Sharp, watermark: WatermarkSettings): Promise<Sharp> => {
+  const { data, info } = await image.png({ compressionLevel: 0 }).toBuffer({ resolveWithObject: true });
+  const logo = watermark.kind === 'logo' && watermark.logo
+    ? await sharp(Buffer.from(watermark.logo.slice(watermark.logo.indexOf(',') + 1), 'base64')).metadata()
+    : null;
+  const svg = buildWatermarkSvg(info.width, info.height, watermark, logo && { width: logo.width ?? 1, height: logo.height ?? 1 });
+  return sharp(await sharp(data).composite([{ input: Buffer.from(svg) }]).png({ compressionLevel: 0 }).toBuffer());
+};
+
+// sharp wraps the same libraries the web app ships as WASM (MozJPEG, libwebp, libavif, libimagequant)
+const applyEncoder = (image: Sharp, format: ConversionFormat, quality: number, codecs: CodecSettings): Sharp => {
+  const percent = Math.round(quality * 100);
+  switch (format) {
+    case 'JPEG': {
+      const { progressive, chromaSubsampling, trellis } = codecs.JPEG;
+      return image.flatten({ background: '#ffffff' }).jpeg({
+        quality: percent,
+        progressive,
+        chromaSubsampling,
+        trellisQuantisation: trellis,
+        optimiseCoding: true,
+      });
+    }
+    case 'WEBP': {
+      const { effort, lossless, sharpYuv } = codecs.WEBP;
+      return image.webp({ quality: percent, effort, lossless, smartSubsample: sharpYuv });
+    }
+    case 'AVIF': {
+      const { effort, chromaSubsampling, lossless } = codecs.AVIF;
+      // sharp tops out at 9 where libavif's scale goes to 10
+      return image.avif({ quality: percent, effort: Math.min(9, effort), chromaSubsampling, lossless });
+    }
+    case 'PNG': {
+      const { effort, quantize, maxColors, dithering } = codecs.PNG;
+      return image.png({
+        compressionLevel: 9,
+        adaptiveFiltering: effort > 0,
+        palette: quantize,
+        // Palette search effort is 1-10 in sharp, OxiPNG levels are 0-6
+        effort: Math.max(1, Math.round((effort / 6) * 10)),
+        colours: maxColors,
+        dither: dithering,
+      });
+    }
+  }
+};
+
+// libvips composites each GIF or WebP page on its own, so only the kept frames are decoded before joining
+const encodeAnimation = async (
+  source: Blob,
+  { quality, width, height, codecs = DEFAULT_CODEC_SETTINGS, transform, watermark }: EncodeOptions,
+  { frames, loopCount }: NonNullable<EncodeOptions['animation']>,
+): Promise<Buffer> => {
+  const buffer = Buffer.from(await source.arrayBuffer());
+  if (sniffFormat(buffer) === 'PNG') {
+    throw new Error('sharp cannot decode APNG frames; use the first frame only');
+  }
+
+  const pages = await Promise.all(frames.map(async ({ index }) => {
+    const page = await sharp(buffer, { page: index }).png({ compressionLevel: 0 }).toBuffer();
+    let image = transform && !isIdentityTransform(transform)
+      ? await applyTransform(new Blob([page]), transform)
+      : sharp(page);
+    if (width && height) {
+      image = image.resize(width, height, { fit: 'fill' });
+    }
+    if (hasWatermark(watermark)) {
+      image = await addWatermark(image, watermark);
+    }
+    return image.png({ compressionLevel: 0 }).toBuffer();
+  }));
+
+  const { effort, lossless, sharpYuv } = codecs.WEBP;
+  return sharp(pages, { join: { animated: true } })
+    .webp({
+      quality: Math.round(quality * 100),
+      effort,
+      lossless,
+      smartSubsample: sharpYuv,
+      loop: loopCount,
+      delay: frames.map(({ duration }) => Math.round(duration)),
+    })
+    .toBuffer();
+};
+
+// jsquash fetches its WASM by URL, which Node cannot do for files, so the JPEG XL decoder is handed it up front
+let jxlDecoder: Promise<unknown> | null = null;
+
+const initJxlDecoder = () => {
+  jxlDecoder ??= (async () => {
+    const { init } = await import('@jsquash/jxl/decode.js');
+    const wasm = await WebAssembly.compile(
+      await readFile(fileURLToPath(import.meta.resolve('@jsquash/jxl/codec/dec/jxl_dec.wasm'))),
+    );
+    return init({
+      instantiateWasm: (imports: WebAssembly.Imports, done: (instance: WebAssembly.Instance) => void) => {
+        const instance = new WebAssembly.Instance(wasm, imports);
+        done(instance);
+        return instance.exports;
+      },
+    });
+  })();
+  return jxlDecoder;
+};
+
+export const sharpBackend: ImageBackend = {
+  getDimensions: async (source) => {
+    const { width = 0, height = 0, orientation = 1 } = await sharp(Buffer.from(await source.arrayBuffer())).metadata();
+    // Orientations 5-8 are quarter turns
+    return orientation >= 5 ? { width: height, height: width } : { width, height };
+  },
+
+  encode: async (source, options, { signal } = {}) => {
+    signal?.throwIfAborted();
+    const { format, quality, width, height, codecs = DEFAULT_CODEC_SETTINGS, transform, animation, watermark } = options;
+    if (animation) {
+      return new Blob([await encodeAnimation(source, options, animation)], { type: getMimeType('WEBP') });
+    }
+    let image = isSvg(source) ? await loadSvg(source, width)
+      : transform && !isIdentityTransform(transform) ? await applyTransform(source, transform)
+      : await load(source);
+    if (width && height) {
+      image = image.resize(width, height, { fit: 'fill' });
+    }
+    if (hasWatermark(watermark)) {
+      image = await addWatermark(image, watermark);
+    }
+    const data = await applyEncoder(image, format, quality, codecs).toBuffer();
+    const produced = sniffFormat(data);
+    if (!produced) throw new Error('Encoder produced an unrecognised file');
+    return new Blob([data], { type: getMimeType(produced) });
+  },
+
+  measureQuality: async (original, optimized) => {
+    const { width = 1, height = 1 } = await sharpBackend.getDimensions(optimized);
+    const scale = Math.min(1, METRIC_SIZE / Math.max(width, height));
+    const size = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+
+    const toLumaAt = async (blob: Blob) => {
+      const image = (await load(blob)).resize(size.width, size.height, { fit: 'fill' }).ensureAlpha().raw();
+      const { data, info } = await image.toBuffer({ resolveWithObject: true });
+      return toLuma({
+        data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+        width: info.width,
+        height: info.height,
+      });
+    };
+
+    const [a, b] = await Promise.all([toLumaAt(original), toLumaAt(optimized)]);
+    return computeQualityMetrics(a, b, size.width, size.height);
+  },
+
+  getSupportedFormats: async () => [...CONVERSION_FORMATS],
+
+  // The same bundled decoders as the browser; sharp's own builds lack HEVC and JPEG XL
+  decode: async (source, format, page) => {
+    if (format === 'JXL') await initJxlDecoder();
+    return decodeToPng(source, format, page);
+  },
+};
@@ -0,0 +1,232 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Plugin } from "vite";
+import { CompressionSettings, DEFAULT_SETTINGS, SettingsPatch, mergeSettings } from "../lib/settings";
+import { CONVERSION_FORMATS, OutputFormat, getMimeType, sniffFormat } from "../lib/formats";
+import { calculateCompressionRatio, optimizeImage } from "../lib/pipeline";
+import { getResponsiveWidths, parseWidths } from "../lib/responsive";
+import { formatFileSize, formatRatio, stripExtension } from "../lib/files";
+import { sharpBackend } from "./sharp-backend";
+
+export interface SmollrPluginOptions {
+  // Same schema as the web app's settings; only the keys that differ from the defaults are needed
+  settings?: SettingsPatch;
+  // Optimize plain image imports too, not only those with smollr query parameters
+  optimizeAll?: boolean;
+  cacheDir?: string;
+}
+
+const IMAGE_PATTERN = /\.(png|jpe?g|webp|avif)$/i;
+const PLUGIN_QUERY_KEYS = new Set(['format', 'w', 'h', 'quality', 'srcset']);
+const DEV_PREFIX = '/@smollr/';
+// Bump when the output for identical inputs changes, so stale cache entries are not reused
+const CACHE_VERSION = 1;
+
+interface ImageRequest {
+  file: string;
+  targetFormat: OutputFormat | null;
+  settings: CompressionSettings;
+  // Present for ?srcset imports
+  widths?: number[];
+}
+
+interface CacheEntry {
+  fileName: string;
+  format: string;
+  width: number;
+  originalBytes: number;
+  bytes: number;
+}
+
+interface SummaryEntry {
+  file: string;
+  originalBytes: number;
+  bytes: number;
+  cached: boolean;
+}
+
+const parseRequest = (id: string, settings: CompressionSettings, optimizeAll: boolean): ImageRequest | null => {
+  const [file, query = ''] = id.split('?', 2);
+  if (!IMAGE_PATTERN.test(file)) return null;
+
+  const params = new URLSearchParams(query);
+  const keys = [...params.keys()];
+  // Leave ?url, ?raw, ?inline and friends to Vite
+  if (keys.some((key) => !PLUGIN_QUERY_KEYS.has(key))) return null;
+  if (keys.length === 0 && !optimizeAll) return null;
+
+  const format = params.get('format')?.toUpperCase();
+  const targetFormat = format === 'AUTO' ? 'AUTO' : CONVERSION_FORMATS.find((candidate) => candidate === format) ?? null;
+  if (format && !targetFormat) {
+    throw new Error(`smollr: unknown format "${params.get('format')}" in ${id}`);
+  }
+
+  // Query values fail the import rather than being dropped, so a typo cannot quietly ship the defaults
+  const readNumber = (key: string, max = Number.MAX_SAFE_INTEGER): number | undefined => {
+    const raw = params.get(key);
+    if (raw === null) return undefined;
+    const value = Number(raw);
+    if (raw.trim() === '' || !Number.isInteger(value) || value < 1 || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? 'a positive whole number' : `a whole number from 1 to ${max}`;
+      throw new Error(`smollr: ${key} must be ${range}, got "${raw}" in ${id}`);
+    }
+    return value;
+  };
+
+  const width = readNumber('w');
+  const height = readNumber('h');
+  // Percent in the URL, the 0-1 scale of the settings everywhere else
+  const percent = readNumber('quality', 100);
+  const quality = percent === undefined ? undefined : percent / 100;
+  // A single explicit dimension lifts the configured limit on the other one
+  const unbounded = Number.MAX_SAFE_INTEGER;
+  const resolved = mergeSettings(settings, {
+    quality,
+    maxWidth: width ?? (height ? unbounded : undefined),
+    maxHeight: height ?? (width ? unbounded : undefined),
+    responsive: { enabled: false },
+  });
+
+  const srcset = params.get('srcset');
+  return {
+    file,
+    targetFormat,
+    settings: resolved,
+    widths: srcset === null ? undefined : srcset ? parseWidths(srcset.replace(/;/g, ',')) : settings.responsive.widths,
+  };
+};
+
+const hashKey = (content: Buffer, parts: unknown) =>
+  createHash('sha256').update(content).update(JSON.stringify([CACHE_VERSION, parts])).digest('hex').slice(0, 16);
+
+export const smollr = ({ settings: patch = {}, optimizeAll = true, cacheDir }: SmollrPluginOptions = {}): Plugin => {
+  const settings = mergeSettings(DEFAULT_SETTINGS, patch);
+  const summary: SummaryEntry[] = [];
+  let cacheRoot = '';
+  let isBuild = false;
+
+  // The dev server transforms for as long as it runs, so only builds collect a summary
+  const record = (entry: SummaryEntry) => {
+    if (isBuild) summary.push(entry);
+  };
+
+  // Each encoded output lives on disk under a key of source bytes + effective settings
+  const getOptimized = async (
+    file: string,
+    content: Buffer,
+    targetFormat: OutputFormat | null,
+    imageSettings: CompressionSettings,
+  ): Promise<CacheEntry & { source: Buffer }> => {
+    const key = hashKey(content, { targetFormat, imageSettings });
+    const indexPath = path.join(cacheRoot, `${key}.json`);
+
+    const cached = await readFile(indexPath, 'utf8').then((json) => JSON.parse(json) as CacheEntry).catch(() => null);
+    if (cached) {
+      const source = await readFile(path.join(cacheRoot, cached.fileName)).catch(() => null);
+      if (source) {
+        record({ file, originalBytes: cached.originalBytes, bytes: cached.bytes, cached: true });
+        return { ...cached, source };
+      }
+    }
+
+    const sourceFormat = sniffFormat(content);
+    if (!sourceFormat) throw new Error(`smollr: ${file} is not a PNG, JPEG, WebP or AVIF file`);
+
+    const name = path.basename(file);
+    const blob = new Blob([content], { type: getMimeType(sourceFormat) });
+    const result = await optimizeImage(sharpBackend, blob, name, { settings: imageSettings, targetFormat });
+    const source = Buffer.from(await result.blob.arrayBuffer());
+    const { width } = await sharpBackend.getDimensions(result.blob);
+
+    const entry: CacheEntry = {
+      fileName: `${key}.${result.format.toLowerCase()}`,
+      format: result.format,
+      width,
+      originalBytes: content.length,
+      bytes: source.length,
+    };
+    await mkdir(cacheRoot, { recursive: true });
+    await writeFile(path.join(cacheRoot, entry.fileName), source);
+    await writeFile(indexPath, JSON.stringify(entry));
+    record({ file, originalBytes: content.length, bytes: source.length, cached: false });
+    return { ...entry, source };
+  };
+
+  return {
+    name: 'smollr',
+    // Runs before Vite's own asset handling so image imports reach us first
+    enforce: 'pre',
+
+    configResolved(config) {
+      isBuild = config.command === 'build';
+      cacheRoot = cacheDir ? path.resolve(config.root, cacheDir) : path.join(config.cacheDir, 'smollr');
+    },
+
+    // Watch mode rebuilds reuse the plugin instance
+    buildStart() {
+      summary.length = 0;
+    },
+
+    configureServer(server) {
+      server.middlewares.use(async (req, res, next) => {
+        if (!req.url?.startsWith(DEV_PREFIX)) return next();
+        const fileName = path.basename(req.url.slice(DEV_PREFIX.length));
+        const source = await readFile(path.join(cacheRoot, fileName)).catch(() => null);
+        if (!source) return next();
+        const format = sniffFormat(source);
+        res.setHeader('Content-Type', format ? getMimeType(format) : 'application/octet-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.end(source);
+      });
+    },
+
+    async load(id) {
+      const request = parseRequest(id, settings, optimizeAll);
+      if (!request) return null;
+
+      const content = await readFile(request.file);
+      this.addWatchFile(request.file);
+
+      const emit = (entry: CacheEntry & { source: Buffer }) => {
+        if (!isBuild) return JSON.stringify(`${DEV_PREFIX}${entry.fileName}`);
+        const name = `${stripExtension(path.basename(request.file))}-${entry.width}w.${entry.format.toLowerCase()}`;
+        const referenceId = this.emitFile({ type: 'asset', name, source: entry.source });
+        return `import.meta.ROLLUP_FILE_URL_${referenceId}`;
+      };
+
+      if (!request.widths) {
+        const entry = await getOptimized(request.file, content, request.targetFormat, request.settings);
+        return `export default ${emit(entry)};`;
+      }
+
+      // ?srcset exports a ready-to-use srcset string, one candidate per width that does not upscale
+      const { width: sourceWidth } = await sharpBackend.getDimensions(new Blob([content]));
+      const candidates = await Promise.all(
+        getResponsiveWidths(sourceWidth, request.widths).map(async (width) => {
+          const entry = await getOptimized(request.file, content, request.targetFormat, {
+            ...request.settings,
+            maxWidth: width,
+            maxHeight: Number.MAX_SAFE_INTEGER,
+          });
+          return `${emit(entry)} + " ${entry.width}w"`;
+        }),
+      );
+      return `export default [${candidates.join(', ')}].join(", ");`;
+    },
+
+    closeBundle() {
+      if (!isBuild || summary.length === 0) return;
+      const originalBytes = summary.reduce((acc, { originalBytes }) => acc + originalBytes, 0);
+      const bytes = summary.reduce((acc, entry) => acc + entry.bytes, 0);
+      const cachedCount = summary.filter(({ cached }) => cached).length;
+
+      this.info(
+        `${summary.length} image${summary.length === 1 ? '' : 's'} (${cachedCount} from cache): ` +
+        `${formatFileSize(originalBytes)} → ${formatFileSize(bytes)}, ` +
+        `saved ${formatFileSize(Math.max(0, originalBytes - bytes))} (${formatRatio(calculateCompressionRatio(originalBytes, bytes))})`,
+      );
+      summary.length = 0;
+    },
+  };
+};
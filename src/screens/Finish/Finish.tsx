@@ -1,189 +1,401 @@
-import React, { useCallback, useState, useEffect } from "react";
-import imageCompression from "browser-image-compression";
+import React, { useCallback, useState, useEffect, useRef } from "react";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
-import { Separator } from "../../components/ui/separator";
 import { ThemeToggle } from "../../components/ui/theme-toggle";
-import { X, Download, Upload, Zap, Image as ImageIcon, CheckCircle, Sparkles, Settings, RefreshCw } from "lucide-react";
+import { X, Download, Upload, Zap, Image as ImageIcon, CheckCircle, Sparkles, Settings, RefreshCw, Columns2, Ban, RotateCcw, Code, Package, MapPin, Trash2, AlertTriangle, FileText, Crop, AppWindow, FileDiff, Film, Gauge, Crosshair, FolderOpen, HardDriveDownload, Copy } from "lucide-react";
+import { CompressionSettings, DEFAULT_SETTINGS, SettingsOverride, getSettingsOverride, resolveSettings } from "../../lib/settings";
+import { SourceFile, createUniquePathResolver, downloadBlob, formatFileSize, formatRatio, getDirectory, getDroppedFiles, getOptimizedFileName, joinPath, stripExtension, toSourceFile } from "../../lib/files";
+import { copyImageToClipboard, getPastedFiles, isEditableTarget } from "../../lib/clipboard";
+import {
+  CONFLICT_POLICIES,
+  ConflictPolicy,
+  WRITE_BACK_MODES,
+  WriteBackMode,
+  WriteEntry,
+  ensurePermission,
+  isAbortError,
+  pickDirectory,
+  readDirectory,
+  supportsDirectoryAccess,
+  writeFiles
+} from "../../lib/directory";
+import { ArchiveEntry, createZip } from "../../lib/zip";
+import { CONVERSION_FORMATS, OutputFormat } from "../../lib/formats";
+import { SnippetKind, buildImageSnippet } from "../../lib/responsive";
+import { Preset, resolvePreset, takePresetFromUrl } from "../../lib/presets";
+import { OptimizationResult, calculateCompressionRatio, optimizeImage } from "../../lib/pipeline";
+import { browserBackend } from "../../lib/browser-backend";
+import { Job, JobContext, Queue, createQueue } from "../../lib/queue";
+import { readImageMetadata } from "../../lib/metadata";
+import { INPUT_ACCEPT, mayBeImage, splitPages } from "../../lib/decode";
+import { onLaunchFiles, takeSharedFiles } from "../../lib/launch";
+import { StorageUsage, clearHistory, deleteHistoryEntry, getStorageUsage, loadHistoryEntries, requestPersistentStorage, saveHistoryEntry } from "../../lib/history-store";
+import { ReportInput, buildReport, getReportOutputs, toJUnitReport, toJsonReport } from "../../lib/report";
+import { IDENTITY_TRANSFORM, ImageTransform, isIdentityTransform } from "../../lib/transform";
+import { AnimationChoice, AnimationSummary, canKeepAnimation, formatAnimationSummary, readAnimationInfo, summarizeAnimation } from "../../lib/animation";
+import { formatQualityMetrics, formatSearchStep, formatSearchSummary } from "../../lib/quality";
+import { ComparisonModal } from "./sections/ComparisonModal";
+import { ImageEditor } from "./sections/ImageEditor";
+import { FaviconGenerator } from "./sections/FaviconGenerator";
+import { SvgDiff } from "./sections/SvgDiff";
+import { SettingsPanel } from "./sections/SettingsPanel";
+import { PresetBar } from "./sections/PresetBar";
 
-interface OptimizedImage {
+interface OptimizedImage extends OptimizationResult {
   id: string;
   name: string;
-  format: string;
-  originalFormat: string;
-  originalSize: string;
-  optimizedSize: string;
+  originalBytes: number;
+  optimizedBytes: number;
   thumbnail: string;
-  blob: Blob;
-  compressionRatio: number;
-  isConverted: boolean;
+  file: File;
+  originalUrl: string;
+  relativePath: string;
+  createdAt: number;
+  appliedSettings: CompressionSettings;
+  settings?: SettingsOverride;
+  // Replayed on the original file whenever the image is re-optimized
+  transform?: ImageTransform;
+  animationChoice?: AnimationChoice;
+  // Set for images read from a picked folder, which can then be written back in place
+  root?: FileSystemDirectoryHandle;
+  // Kept from the source, so re-optimizing reads the same TIFF page
+  page?: number;
 }
 
-interface ProcessingImage {
-  name: string;
-  format: string;
-  progress: number;
+// Object URLs are per-document, so they are recreated from the blobs on restore
+type StoredImage = Omit<OptimizedImage, 'thumbnail' | 'originalUrl'>;
+
+// Sources the browser may not display (HEIC, TIFF, JPEG XL) are shown through their decoded copy
+const getViewableSource = (image: Pick<OptimizedImage, 'file' | 'decodedSource'>): Blob => image.decodedSource ?? image.file;
+
+const toStoredImage = ({ thumbnail, originalUrl, ...image }: OptimizedImage): StoredImage => image;
+
+const fromStoredImage = (image: StoredImage): OptimizedImage => ({
+  ...image,
+  thumbnail: URL.createObjectURL(image.blob),
+  originalUrl: URL.createObjectURL(getViewableSource(image)),
+});
+
+interface OptimizationJob {
+  source: SourceFile;
+  settings: CompressionSettings;
+  override?: SettingsOverride;
+  targetFormat: OutputFormat | null;
+  transform?: ImageTransform;
+  animation?: AnimationChoice;
+  replaceId?: string;
 }
 
-type ConversionFormat = 'AVIF' | 'WEBP' | 'JPEG' | 'PNG';
+type ResultSort = 'added' | 'savings' | 'ssim' | 'msSsim' | 'psnr';
+
+const RESULT_SORTS: { key: ResultSort; label: string }[] = [
+  { key: 'added', label: 'Added' },
+  { key: 'savings', label: 'Savings' },
+  { key: 'ssim', label: 'SSIM' },
+  { key: 'msSsim', label: 'MS-SSIM' },
+  { key: 'psnr', label: 'PSNR' },
+];
+
+// Quality sorts put the weakest results first, since those are the ones worth a look.
+// Results restored from before metrics were recorded go last.
+const compareResults = (key: ResultSort) => (a: OptimizedImage, b: OptimizedImage): number => {
+  if (key === 'added') return 0;
+  if (key === 'savings') return b.compressionRatio - a.compressionRatio;
+  if (!a.metrics || !b.metrics) return a.metrics ? -1 : b.metrics ? 1 : 0;
+  return a.metrics[key] - b.metrics[key];
+};
+
+const DEFAULT_CONCURRENCY = Math.min(4, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+
+const jobStatusClassName: Record<Job<OptimizationJob>['status'], string> = {
+  queued: 'bg-slate-200/50 dark:bg-slate-600/50',
+  running: 'bg-blue-200/50 dark:bg-blue-600/50',
+  done: 'bg-green-200/50 dark:bg-green-600/50',
+  failed: 'bg-red-200/50 dark:bg-red-600/50',
+  cancelled: 'bg-orange-200/50 dark:bg-orange-600/50',
+};
+
 export const Finish = (): JSX.Element => {
   const [isDragging, setIsDragging] = useState(false);
   const [optimizedImages, setOptimizedImages] = useState<OptimizedImage[]>([]);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [currentProcessing, setCurrentProcessing] = useState<ProcessingImage | null>(null);
+  const [jobs, setJobs] = useState<Job<OptimizationJob>[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
   const [manualConversion, setManualConversion] = useState(false);
-  const [selectedFormat, setSelectedFormat] = useState<ConversionFormat>('WEBP');
+  const [selectedFormat, setSelectedFormat] = useState<OutputFormat>('WEBP');
+  const [settings, setSettings] = useState<CompressionSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showFavicons, setShowFavicons] = useState(false);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [editingSettings, setEditingSettings] = useState<CompressionSettings>(DEFAULT_SETTINGS);
+  const [croppingImageId, setCroppingImageId] = useState<string | null>(null);
+  const [editingTransform, setEditingTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [keepFolders, setKeepFolders] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [writeBackMode, setWriteBackMode] = useState<WriteBackMode>('mirror');
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('rename');
+  const [isWriting, setIsWriting] = useState(false);
+  const [writeStatus, setWriteStatus] = useState<string | null>(null);
+  const [copyStatus, setCopyStatus] = useState<{ id: string; message: string } | null>(null);
+  const [compareImageId, setCompareImageId] = useState<string | null>(null);
+  const [diffImageId, setDiffImageId] = useState<string | null>(null);
+  const [gpsJobIds, setGpsJobIds] = useState<Set<string>>(new Set());
+  const [animatedJobs, setAnimatedJobs] = useState<Map<string, AnimationSummary>>(new Map());
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [resultSort, setResultSort] = useState<ResultSort>('added');
+  const [qualityFloor, setQualityFloor] = useState(DEFAULT_SETTINGS.minSsim);
+  const [onlyBelowFloor, setOnlyBelowFloor] = useState(false);
+  const queueRef = useRef<Queue<OptimizationJob, OptimizedImage> | null>(null);
+  const handleFilesRef = useRef<(files: SourceFile[]) => void>(() => {});
   
-  // ✅ Ko-fi widget loader
+  // ✅ Ko-fi widget loader, deferred until there is a network so offline use stays clean
   useEffect(() => {
-    const script = document.createElement("script");
-    script.src = "https://storage.ko-fi.com/cdn/scripts/overlay-widget.js";
-    script.async = true;
-    script.id = "kofi-widget-script";
-
-    script.onload = () => {
-      if (typeof window.kofiWidgetOverlay?.draw === "function") {
-        window.kofiWidgetOverlay.draw("ahmadmizanh", {
-          type: "floating-chat",
-          "floating-chat.donateButton.text": "Tip Me",
-          "floating-chat.donateButton.background-color": "#00b9fe",
-          "floating-chat.donateButton.text-color": "#fff",
-        });
-      }
+    const loadWidget = () => {
+      const script = document.createElement("script");
+      script.src = "https://storage.ko-fi.com/cdn/scripts/overlay-widget.js";
+      script.async = true;
+      script.id = "kofi-widget-script";
+
+      script.onload = () => {
+        if (typeof window.kofiWidgetOverlay?.draw === "function") {
+          window.kofiWidgetOverlay.draw("ahmadmizanh", {
+            type: "floating-chat",
+            "floating-chat.donateButton.text": "Tip Me",
+            "floating-chat.donateButton.background-color": "#00b9fe",
+            "floating-chat.donateButton.text-color": "#fff",
+          });
+        }
+      };
+
+      document.body.appendChild(script);
     };
 
-    document.body.appendChild(script);
+    if (navigator.onLine) {
+      loadWidget();
+    } else {
+      window.addEventListener("online", loadWidget, { once: true });
+    }
 
     return () => {
+      window.removeEventListener("online", loadWidget);
       document.getElementById("kofi-widget-script")?.remove();
       document.getElementById("kofi-chat-widget-container")?.remove();
     };
   }, []);
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
-  const calculateCompressionRatio = (originalSize: number, compressedSize: number): number => {
-    return Math.round(((originalSize - compressedSize) / originalSize) * 100);
-  };
-
-  const convertImageFormat = async (file: File, targetFormat: ConversionFormat): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      const img = new Image();
-      
-      img.onload = () => {
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx?.drawImage(img, 0, 0);
-        
-        const mimeType = targetFormat === 'AVIF' ? 'image/avif' :
-                        targetFormat === 'WEBP' ? 'image/webp' :
-                        targetFormat === 'JPEG' ? 'image/jpeg' : 'image/png';
-        
-        const quality = targetFormat === 'PNG' ? undefined : 0.9;
-        
-        canvas.toBlob((blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to convert image'));
-          }
-        }, mimeType, quality);
-      };
-      
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(file);
-    });
+
+  const refreshStorageUsage = () => {
+    getStorageUsage().then(setStorageUsage).catch((error) => console.error('Error reading storage quota:', error));
   };
-  const handleImageOptimization = async (file: File) => {
-    try {
-      const originalFormat = file.type.split('/')[1].toUpperCase();
-      let targetFormat = originalFormat;
-      let isConverted = false;
-      
-      if (manualConversion) {
-        targetFormat = selectedFormat;
-        isConverted = originalFormat !== selectedFormat;
-      }
-      
-      setCurrentProcessing({
-        name: file.name,
-        format: targetFormat,
-        progress: 0
-      });
 
-      let processedFile = file;
-      
-      // Convert format if needed
-      if (manualConversion && isConverted) {
-        setCurrentProcessing(prev => prev ? { ...prev, progress: 25 } : null);
-        const convertedBlob = await convertImageFormat(file, selectedFormat);
-        processedFile = new File([convertedBlob], file.name, { type: convertedBlob.type });
-      }
+  // Restore the previous session's results
+  useEffect(() => {
+    let cancelled = false;
+    loadHistoryEntries<StoredImage>()
+      .then((entries) => {
+        if (cancelled) return;
+        const restored = entries.map(fromStoredImage);
+        setOptimizedImages(prev => [...restored, ...prev.filter(img => !restored.some(r => r.id === img.id))]);
+      })
+      .catch((error) => console.error('Error restoring history:', error))
+      .finally(refreshStorageUsage);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
-      const options = {
-        maxSizeMB: 2,
-        maxWidthOrHeight: 2048,
-        useWebWorker: true,
-        initialQuality: 0.9,
-        alwaysKeepResolution: true,
-        onProgress: (progress: number) => {
-          const adjustedProgress = manualConversion && isConverted ? 25 + (progress * 0.75) : progress;
-          setCurrentProcessing(prev => prev ? { ...prev, progress: adjustedProgress } : null);
-        }
-      };
+  const persistImage = (image: OptimizedImage) => {
+    requestPersistentStorage().catch(() => false);
+    saveHistoryEntry(toStoredImage(image))
+      .catch((error) => console.error('Error saving to history:', error))
+      .finally(refreshStorageUsage);
+  };
 
-      const compressedFile = await imageCompression(processedFile, options);
-      const thumbnail = URL.createObjectURL(compressedFile);
-      const compressionRatio = calculateCompressionRatio(file.size, compressedFile.size);
-
-      const optimizedImage: OptimizedImage = {
-        id: crypto.randomUUID(),
-        name: file.name,
-        format: targetFormat,
-        originalFormat,
-        originalSize: formatFileSize(file.size),
-        optimizedSize: formatFileSize(compressedFile.size),
-        thumbnail,
-        blob: compressedFile,
-        compressionRatio,
-        isConverted
-      };
+  const revokeImageUrls = (image: OptimizedImage) => {
+    URL.revokeObjectURL(image.thumbnail);
+    URL.revokeObjectURL(image.originalUrl);
+  };
 
+  const handleImageOptimization = async (
+    { source, settings: imageSettings, override, targetFormat, transform, animation, replaceId }: OptimizationJob,
+    { signal, onProgress, onStep }: JobContext
+  ): Promise<OptimizedImage> => {
+    const { file, relativePath, root, page } = source;
+    const result = await optimizeImage(browserBackend, file, file.name, {
+      settings: imageSettings,
+      targetFormat,
+      transform,
+      animation,
+      page,
+      signal,
+      onProgress,
+      onSearchStep: (step) => onStep(formatSearchStep(step))
+    });
+
+    return {
+      ...result,
+      id: replaceId ?? crypto.randomUUID(),
+      name: file.name,
+      originalBytes: file.size,
+      optimizedBytes: result.blob.size,
+      thumbnail: URL.createObjectURL(result.blob),
+      file,
+      originalUrl: URL.createObjectURL(getViewableSource({ file, decodedSource: result.decodedSource })),
+      relativePath,
+      createdAt: Date.now(),
+      appliedSettings: imageSettings,
+      settings: override,
+      transform,
+      animationChoice: animation,
+      root,
+      page
+    };
+  };
+
+  const handleJobComplete = (job: Job<OptimizationJob>, optimizedImage: OptimizedImage) => {
+    setGpsJobIds(prev => {
+      const next = new Set(prev);
+      next.delete(job.id);
+      return next;
+    });
+    setAnimatedJobs(prev => {
+      const next = new Map(prev);
+      next.delete(job.id);
+      return next;
+    });
+    if (job.input.replaceId) {
+      setOptimizedImages(prev => prev.map(img => {
+        if (img.id !== job.input.replaceId) return img;
+        revokeImageUrls(img);
+        // Keep the original position in the restored history
+        const replacement = { ...optimizedImage, createdAt: img.createdAt };
+        persistImage(replacement);
+        return replacement;
+      }));
+    } else {
       setOptimizedImages(prev => [...prev, optimizedImage]);
-    } catch (error) {
-      console.error('Error optimizing image:', error);
+      persistImage(optimizedImage);
     }
   };
 
-  const handleFiles = async (files: FileList) => {
-    setIsProcessing(true);
-    const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
-    
-    if (imageFiles.length > 10) {
-      alert('Please select up to 10 images only');
-      setIsProcessing(false);
-      return;
+  // Job inputs carry their own settings, so the queue never reads stale component state
+  const getQueue = () => {
+    if (!queueRef.current) {
+      queueRef.current = createQueue<OptimizationJob, OptimizedImage>({
+        concurrency,
+        run: handleImageOptimization,
+        onChange: setJobs,
+        onComplete: handleJobComplete,
+      });
     }
+    return queueRef.current;
+  };
 
-    for (const file of imageFiles) {
-      await handleImageOptimization(file);
+  useEffect(() => {
+    getQueue().setConcurrency(concurrency);
+  }, [concurrency]);
+
+  const addJobs = (inputs: OptimizationJob[]) => {
+    const ids = getQueue().add(inputs);
+
+    // Flag location data and animations while the job is still waiting, before any policy strips them
+    inputs.forEach(({ source: { file } }, index) => {
+      readImageMetadata(file).then(({ hasGps }) => {
+        if (hasGps) setGpsJobIds(prev => new Set(prev).add(ids[index]));
+      });
+      readAnimationInfo(file).then((info) => {
+        if (info) setAnimatedJobs(prev => new Map(prev).set(ids[index], summarizeAnimation(info)));
+      });
+    });
+  };
+
+  const enqueue = (
+    sources: SourceFile[],
+    override?: SettingsOverride,
+    replaceId?: string,
+    transform?: ImageTransform,
+    animation?: AnimationChoice
+  ) => {
+    addJobs(sources.map((source) => ({
+      source,
+      settings: resolveSettings(settings, override),
+      override,
+      targetFormat: manualConversion ? selectedFormat : null,
+      transform,
+      animation,
+      replaceId
+    })));
+  };
+
+  // A still-only format refuses animated input, so the job fails until the user picks what to keep
+  const handleAnimationChoice = (job: Job<OptimizationJob>, animation: AnimationChoice) => {
+    getQueue().remove(job.id);
+    addJobs([{ ...job.input, animation }]);
+  };
+
+  // Anything that might be an image is queued, so a file that turns out not to be one fails with a reason
+  const handleFiles = async (files: SourceFile[]) => {
+    try {
+      const imageFiles = (await Promise.all(files.filter(({ file }) => mayBeImage(file)).map(splitPages))).flat();
+      if (imageFiles.length > 0) {
+        enqueue(imageFiles);
+      }
+    } catch (error) {
+      console.error('Error reading files:', error);
     }
-    setIsProcessing(false);
-    setCurrentProcessing(null);
   };
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  handleFilesRef.current = handleFiles;
+
+  // Files arriving from the OS ("Open with smollr") or the share sheet join the queue like a drop
+  useEffect(() => {
+    onLaunchFiles((files) => handleFilesRef.current(files.map(toSourceFile)));
+    takeSharedFiles()
+      .then((files) => handleFilesRef.current(files.map(toSourceFile)))
+      .catch((error) => console.error('Error receiving shared files:', error));
+  }, []);
+
+  const handleApplyPreset = (preset: Preset) => {
+    const { settings: presetSettings, targetFormat } = resolvePreset(preset);
+    setSettings(presetSettings);
+    setManualConversion(targetFormat !== null);
+    if (targetFormat) setSelectedFormat(targetFormat);
+  };
+
+  // A shared settings link opens with its pipeline configured and the settings in view
+  useEffect(() => {
+    const preset = takePresetFromUrl();
+    if (!preset) return;
+    handleApplyPreset(preset);
+    setShowSettings(true);
+  }, []);
+
+  // Screenshots go straight from the clipboard into the queue, wherever focus is outside a text field
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isEditableTarget(e.target)) return;
+      const files = getPastedFiles(e.clipboardData);
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleFilesRef.current(files.map(toSourceFile));
+    };
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, []);
+
+  useEffect(() => {
+    if (!copyStatus) return;
+    const timeout = setTimeout(() => setCopyStatus(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [copyStatus]);
+
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    handleFiles(e.dataTransfer.files);
-  }, []);
+    try {
+      handleFiles(await getDroppedFiles(e.dataTransfer));
+    } catch (error) {
+      console.error('Error reading dropped files:', error);
+    }
+  };
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -197,43 +409,273 @@ export const Finish = (): JSX.Element => {
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      handleFiles(e.target.files);
+      handleFiles(Array.from(e.target.files).map(toSourceFile));
     }
   };
 
-  const handleDownloadAll = () => {
-    optimizedImages.forEach((image) => {
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(image.blob);
-      const extension = image.format.toLowerCase();
-      const nameWithoutExt = image.name.replace(/\.[^/.]+$/, "");
-      link.download = `${nameWithoutExt}-optimized.${extension}`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    });
+  // Without the File System Access API, a webkitdirectory input still reads folders, just never writes back
+  const handlePickFolder = async () => {
+    if (!supportsDirectoryAccess()) {
+      document.getElementById('folderInput')?.click();
+      return;
+    }
+    try {
+      handleFiles(await readDirectory(await pickDirectory('read')));
+    } catch (error) {
+      if (!isAbortError(error)) console.error('Error reading folder:', error);
+    }
+  };
+
+  const getImageArchiveEntries = (image: OptimizedImage): ArchiveEntry[] => {
+    const entries = [{ path: getOptimizedFileName(image.name, image.format), blob: image.blob }];
+    for (const variant of image.variants ?? []) {
+      entries.push({ path: variant.fileName, blob: variant.blob });
+    }
+    if (image.responsiveMarkup) {
+      entries.push({
+        path: `${stripExtension(image.name)}-picture.html`,
+        blob: new Blob([image.responsiveMarkup], { type: 'text/html' })
+      });
+    }
+    return entries;
+  };
+
+  const handleDownloadResponsiveSet = async (image: OptimizedImage) => {
+    const entries = getImageArchiveEntries(image).slice(1);
+    downloadBlob(await createZip(entries), `${stripExtension(image.name)}-responsive.zip`);
+  };
+
+  const handleCopyMarkup = async (image: OptimizedImage) => {
+    if (!image.responsiveMarkup) return;
+    try {
+      await navigator.clipboard.writeText(image.responsiveMarkup);
+    } catch (error) {
+      console.error('Error copying markup:', error);
+    }
+  };
+
+  const handleCopyImage = async (image: OptimizedImage) => {
+    try {
+      const type = await copyImageToClipboard(image.blob);
+      setCopyStatus({ id: image.id, message: type === image.blob.type ? 'Image copied' : 'Copied as PNG' });
+    } catch (error) {
+      console.error('Error copying image:', error);
+      setCopyStatus({ id: image.id, message: 'Copy failed' });
+    }
+  };
+
+  const handleCopySnippet = async (image: OptimizedImage, kind: SnippetKind) => {
+    try {
+      await navigator.clipboard.writeText(buildImageSnippet(kind, {
+        fileName: getOptimizedFileName(image.name, image.format),
+        width: image.width,
+        height: image.height,
+        alt: stripExtension(image.name)
+      }));
+      setCopyStatus({ id: image.id, message: kind === 'markdown' ? 'Markdown copied' : 'HTML copied' });
+    } catch (error) {
+      console.error('Error copying snippet:', error);
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const resolvePath = createUniquePathResolver();
+      const entries = optimizedImages.flatMap((image) => {
+        const directory = keepFolders ? getDirectory(image.relativePath) : '';
+        return getImageArchiveEntries(image).map(({ path, blob }) => ({
+          path: resolvePath(joinPath(directory, path)),
+          blob
+        }));
+      });
+      downloadBlob(await createZip(entries), 'smollr-optimized.zip');
+    } catch (error) {
+      console.error('Error creating archive:', error);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  // The optimized file takes the source's name with the output extension, replacing it when the format is unchanged
+  const getInPlaceEntries = (image: OptimizedImage): WriteEntry[] => {
+    // relativePath starts with the picked folder's own name
+    const directory = getDirectory(image.relativePath.split('/').slice(1).join('/'));
+    const [main, ...rest] = getImageArchiveEntries(image);
+    // Same format as the source replaces it under its own name, so "photo.jpg" stays "photo.jpg" rather than "photo.jpeg"
+    const replace = image.format === image.originalFormat;
+    const mainName = replace ? image.name : `${stripExtension(image.name)}.${image.format.toLowerCase()}`;
+    return [
+      { path: joinPath(directory, mainName), blob: main.blob, replace },
+      ...rest.map(({ path, blob }) => ({ path: joinPath(directory, path), blob }))
+    ];
+  };
+
+  const writeInPlace = async () => {
+    const targets = new Map<FileSystemDirectoryHandle, WriteEntry[]>();
+    for (const image of optimizedImages) {
+      if (image.root) targets.set(image.root, [...(targets.get(image.root) ?? []), ...getInPlaceEntries(image)]);
+    }
+    const missing = optimizedImages.filter((image) => !image.root).length;
+    const replaced = [...targets.values()].flat().filter((entry) => entry.replace).length;
+    if (targets.size === 0) {
+      setWriteStatus('Only images opened with "Choose a folder" can be saved in place');
+      return;
+    }
+    if (replaced > 0 && !window.confirm(`Overwrite ${replaced} original file${replaced === 1 ? '' : 's'} in place? This cannot be undone.`)) {
+      return;
+    }
+
+    let written = 0;
+    let skipped = 0;
+    for (const [root, rootEntries] of targets) {
+      // Replacements keep the source's path; any new file landing on a taken path gets a counter
+      const resolvePath = createUniquePathResolver();
+      rootEntries.filter((entry) => entry.replace).forEach((entry) => resolvePath(entry.path));
+      const entries = rootEntries.map((entry) => (entry.replace ? entry : { ...entry, path: resolvePath(entry.path) }));
+      if (!(await ensurePermission(root, 'readwrite'))) {
+        skipped += entries.length;
+        continue;
+      }
+      const summary = await writeFiles(root, entries, conflictPolicy);
+      written += summary.written.length;
+      skipped += summary.skipped.length;
+    }
+    setWriteStatus(
+      `Saved ${written} file${written === 1 ? '' : 's'}` +
+      (skipped > 0 ? `, skipped ${skipped}` : '') +
+      (missing > 0 ? `; ${missing} image${missing === 1 ? ' was' : 's were'} not from a picked folder` : '')
+    );
+  };
+
+  const writeMirror = async () => {
+    const root = await pickDirectory('readwrite');
+    const resolvePath = createUniquePathResolver();
+    const entries = optimizedImages.flatMap((image) =>
+      getImageArchiveEntries(image).map(({ path, blob }) => ({ path: resolvePath(joinPath(getDirectory(image.relativePath), path)), blob }))
+    );
+    const { written, skipped } = await writeFiles(root, entries, conflictPolicy);
+    setWriteStatus(
+      `Saved ${written.length} file${written.length === 1 ? '' : 's'} to ${root.name}` +
+      (skipped.length > 0 ? `, skipped ${skipped.length} existing` : '')
+    );
+  };
+
+  const handleSaveToFolder = async () => {
+    setIsWriting(true);
+    setWriteStatus(null);
+    try {
+      await (writeBackMode === 'in-place' ? writeInPlace() : writeMirror());
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('Error saving to folder:', error);
+        setWriteStatus('Saving failed; some files may have been written');
+      }
+    } finally {
+      setIsWriting(false);
+    }
   };
 
   const handleDeleteImage = (id: string) => {
-    setOptimizedImages(prev => prev.filter(img => img.id !== id));
+    setOptimizedImages(prev => prev.filter(img => {
+      if (img.id !== id) return true;
+      revokeImageUrls(img);
+      return false;
+    }));
+    deleteHistoryEntry(id)
+      .catch((error) => console.error('Error removing from history:', error))
+      .finally(refreshStorageUsage);
+    if (editingImageId === id) {
+      setEditingImageId(null);
+    }
+    if (croppingImageId === id) {
+      setCroppingImageId(null);
+    }
+    if (compareImageId === id) {
+      setCompareImageId(null);
+    }
   };
 
+  const handleClearHistory = () => {
+    optimizedImages.forEach(revokeImageUrls);
+    setOptimizedImages([]);
+    setEditingImageId(null);
+    setCroppingImageId(null);
+    setCompareImageId(null);
+    clearHistory()
+      .catch((error) => console.error('Error clearing history:', error))
+      .finally(refreshStorageUsage);
+  };
+
+  const handleEditImageSettings = (image: OptimizedImage) => {
+    if (editingImageId === image.id) {
+      setEditingImageId(null);
+      return;
+    }
+    setEditingSettings(resolveSettings(settings, image.settings));
+    setEditingImageId(image.id);
+  };
+
+  const handleReoptimize = (image: OptimizedImage, override?: SettingsOverride) => {
+    setEditingImageId(null);
+    enqueue([image], override, image.id, image.transform, image.animationChoice);
+  };
+
+  const handleEditImage = (image: OptimizedImage) => {
+    if (croppingImageId === image.id) {
+      setCroppingImageId(null);
+      return;
+    }
+    setEditingTransform(image.transform ?? IDENTITY_TRANSFORM);
+    setCroppingImageId(image.id);
+  };
+
+  const handleApplyEdits = (image: OptimizedImage, transform: ImageTransform) => {
+    setCroppingImageId(null);
+    enqueue([image], image.settings, image.id, isIdentityTransform(transform) ? undefined : transform, image.animationChoice);
+  };
+
+  const activeJobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  const runningJobs = activeJobs.filter(job => job.status === 'running');
+  const isProcessing = activeJobs.length > 0;
+  const queueProgress = isProcessing
+    ? activeJobs.reduce((acc, job) => acc + job.progress, 0) / activeJobs.length
+    : 0;
+
+  const compareImage = optimizedImages.find(img => img.id === compareImageId);
+
   const getTotalOptimization = () => {
     if (optimizedImages.length === 0) return 0;
-    
-    const totalOriginal = optimizedImages.reduce((acc, img) => {
-      const size = parseFloat(img.originalSize.split(' ')[0]);
-      const unit = img.originalSize.split(' ')[1];
-      return acc + (unit === 'MB' ? size * 1024 : size);
-    }, 0);
+    const totalOriginal = optimizedImages.reduce((acc, img) => acc + img.originalBytes, 0);
+    const totalOptimized = optimizedImages.reduce((acc, img) => acc + img.optimizedBytes, 0);
+    return calculateCompressionRatio(totalOriginal, totalOptimized);
+  };
+
+  const toReportInput = (image: OptimizedImage): ReportInput => ({
+    path: image.relativePath,
+    originalFormat: image.originalFormat,
+    originalBytes: image.originalBytes,
+    outputs: getReportOutputs(getOptimizedFileName(image.name, image.format), image),
+    metrics: image.metrics,
+  });
+
+  // Budgets only judge finished outputs, so changing them never requires re-optimizing
+  const report = buildReport(optimizedImages.map(toReportInput), settings.budgets);
 
-    const totalOptimized = optimizedImages.reduce((acc, img) => {
-      const size = parseFloat(img.optimizedSize.split(' ')[0]);
-      const unit = img.optimizedSize.split(' ')[1];
-      return acc + (unit === 'MB' ? size * 1024 : size);
-    }, 0);
+  const violationsById = new Map(optimizedImages.map((image, index) => [image.id, report.files[index].violations]));
 
-    return Math.round(((totalOriginal - totalOptimized) / totalOriginal) * 100);
+  const isBelowFloor = (image: OptimizedImage) => image.metrics !== undefined && image.metrics.ssim < qualityFloor;
+  const belowFloorCount = optimizedImages.filter(isBelowFloor).length;
+  const visibleImages = optimizedImages
+    .filter((image) => !onlyBelowFloor || isBelowFloor(image))
+    .sort(compareResults(resultSort));
+
+  const handleExportReport = (type: 'json' | 'junit') => {
+    if (type === 'json') {
+      downloadBlob(new Blob([toJsonReport(report)], { type: 'application/json' }), 'smollr-report.json');
+    } else {
+      downloadBlob(new Blob([toJUnitReport(report)], { type: 'application/xml' }), 'smollr-junit.xml');
+    }
   };
 
   return (
@@ -268,10 +710,84 @@ export const Finish = (): JSX.Element => {
             </div>
           </div>
           <div className="flex items-center gap-4 shrink-0">
+            <button
+              onClick={() => setShowFavicons(!showFavicons)}
+              className={`w-8 h-8 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all duration-300 ${
+                showFavicons
+                  ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+                  : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-105'
+              }`}
+              aria-label="Favicon generator"
+            >
+              <AppWindow className="w-4 h-4 sm:w-6 sm:h-6" />
+            </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className={`w-8 h-8 sm:w-12 sm:h-12 rounded-full flex items-center justify-center transition-all duration-300 ${
+                showSettings
+                  ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+                  : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-105'
+              }`}
+              aria-label="Compression settings"
+            >
+              <Settings className="w-4 h-4 sm:w-6 sm:h-6" />
+            </button>
             <ThemeToggle />
           </div>
         </div>
 
+        {/* Global compression settings */}
+        {showSettings && (
+          <Card className="glass rounded-2xl shadow-2xl mb-8 sm:mb-12 lg:mb-16">
+            <CardContent className="p-6 sm:p-8">
+              <PresetBar
+                settings={settings}
+                targetFormat={manualConversion ? selectedFormat : null}
+                onApply={handleApplyPreset}
+              />
+              <SettingsPanel
+                title="Default compression settings"
+                settings={settings}
+                onChange={setSettings}
+                previewImage={optimizedImages[0] && getViewableSource(optimizedImages[0])}
+                showBudgets
+              >
+                <Button
+                  onClick={() => setSettings(DEFAULT_SETTINGS)}
+                  className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                >
+                  Reset to defaults
+                </Button>
+              </SettingsPanel>
+              <div className="flex items-center justify-between gap-4 mt-6 pt-6 border-t border-white/20">
+                <span className="text-slate-700 dark:text-slate-300 font-medium text-sm sm:text-base">
+                  Images processed in parallel
+                </span>
+                <input
+                  type="number"
+                  min={1}
+                  max={16}
+                  value={concurrency}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value >= 1) setConcurrency(Math.min(16, value));
+                  }}
+                  className="w-20 glass-subtle rounded-lg px-3 py-2 text-sm font-semibold text-slate-900 dark:text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Favicon and app icon pack */}
+        {showFavicons && (
+          <Card className="glass rounded-2xl shadow-2xl mb-8 sm:mb-12 lg:mb-16">
+            <CardContent className="p-6 sm:p-8">
+              <FaviconGenerator />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Apple-style liquid glass stats cards */}
         {optimizedImages.length > 0 && (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 mb-8 sm:mb-12 lg:mb-16 animate-slide-up">
@@ -300,6 +816,15 @@ export const Finish = (): JSX.Element => {
                 <div className="text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400">
                   Size Reduction
                 </div>
+                {settings.budgets.length > 0 && (
+                  <div className={`text-xs sm:text-sm font-semibold mt-2 ${
+                    report.totals.violations > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                  }`}>
+                    {report.totals.violations > 0
+                      ? `${report.totals.violations} budget violation${report.totals.violations === 1 ? '' : 's'}`
+                      : 'All images within budget'}
+                  </div>
+                )}
               </CardContent>
             </Card>
             
@@ -310,10 +835,88 @@ export const Finish = (): JSX.Element => {
                 </div>
                 <Button 
                   onClick={handleDownloadAll}
+                  disabled={isZipping}
                   className="w-full glass-intense bg-gradient-to-r from-purple-500/80 to-pink-500/80 hover:from-purple-600/90 hover:to-pink-600/90 text-white border-0 shadow-xl shadow-purple-500/25 font-semibold py-2 sm:py-3 px-4 sm:px-6 text-sm sm:text-base rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105 hover:shadow-2xl"
                 >
-                  Download All
+                  {isZipping ? 'Zipping...' : 'Download All (.zip)'}
                 </Button>
+                <label className="flex items-center justify-center gap-2 mt-3 text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={keepFolders}
+                    onChange={(e) => setKeepFolders(e.target.checked)}
+                    className="accent-purple-500"
+                  />
+                  Keep folder structure
+                </label>
+                {supportsDirectoryAccess() && (
+                  <div className="mt-3 flex flex-col gap-2">
+                    <Button
+                      onClick={handleSaveToFolder}
+                      disabled={isWriting}
+                      className="w-full glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                    >
+                      <HardDriveDownload />
+                      {isWriting ? 'Saving...' : writeBackMode === 'in-place' ? 'Save next to originals' : 'Save to folder...'}
+                    </Button>
+                    <div className="flex items-center justify-center gap-2 text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400">
+                      <select
+                        value={writeBackMode}
+                        onChange={(e) => setWriteBackMode(e.target.value as WriteBackMode)}
+                        className="glass-subtle rounded-lg px-2 py-1 bg-transparent"
+                        aria-label="Where to save"
+                      >
+                        {WRITE_BACK_MODES.map((mode) => (
+                          <option key={mode} value={mode}>{mode === 'mirror' ? 'Mirror folders' : 'In place'}</option>
+                        ))}
+                      </select>
+                      <select
+                        value={conflictPolicy}
+                        onChange={(e) => setConflictPolicy(e.target.value as ConflictPolicy)}
+                        className="glass-subtle rounded-lg px-2 py-1 bg-transparent"
+                        aria-label="When a file exists"
+                      >
+                        {CONFLICT_POLICIES.map((policy) => (
+                          <option key={policy} value={policy}>{`Existing: ${policy}`}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {writeStatus && (
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{writeStatus}</p>
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center justify-center gap-3 mt-3 text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400">
+                  <span>Report</span>
+                  <button
+                    onClick={() => handleExportReport('json')}
+                    className="flex items-center gap-1 hover:underline"
+                  >
+                    <FileText className="w-3 h-3 sm:w-4 sm:h-4" />
+                    JSON
+                  </button>
+                  <button
+                    onClick={() => handleExportReport('junit')}
+                    className="flex items-center gap-1 hover:underline"
+                  >
+                    <FileText className="w-3 h-3 sm:w-4 sm:h-4" />
+                    JUnit XML
+                  </button>
+                </div>
+                <div className="flex items-center justify-center gap-3 mt-3 text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400">
+                  {storageUsage && (
+                    <span>
+                      {formatFileSize(storageUsage.usage)} of {formatFileSize(storageUsage.quota)} stored
+                    </span>
+                  )}
+                  <button
+                    onClick={handleClearHistory}
+                    className="flex items-center gap-1 text-red-600 dark:text-red-400 hover:underline"
+                  >
+                    <Trash2 className="w-3 h-3 sm:w-4 sm:h-4" />
+                    Clear history
+                  </button>
+                </div>
               </CardContent>
             </Card>
           </div>
@@ -336,11 +939,18 @@ export const Finish = (): JSX.Element => {
             id="fileInput"
             className="hidden"
             multiple
-            accept="image/*"
+            accept={INPUT_ACCEPT}
+            onChange={handleFileInput}
+          />
+          <input
+            type="file"
+            id="folderInput"
+            className="hidden"
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
             onChange={handleFileInput}
           />
           <CardContent className="p-8 sm:p-12 lg:p-16">
-            {isProcessing && currentProcessing ? (
+            {isProcessing ? (
               <div className="text-center">
                 <div className="relative mb-6 sm:mb-8">
                   <div className="w-20 h-20 sm:w-24 sm:h-24 glass-intense bg-gradient-to-br from-blue-500/80 to-purple-500/80 rounded-2xl sm:rounded-3xl flex items-center justify-center mx-auto shadow-2xl shadow-blue-500/25 animate-float">
@@ -356,17 +966,18 @@ export const Finish = (): JSX.Element => {
                   {manualConversion ? 'Converting & Optimizing...' : 'Optimizing Images...'}
                 </h3>
                 <p className="text-slate-600 dark:text-slate-400 mb-6 sm:mb-8 font-medium text-sm sm:text-base">
-                  Processing {currentProcessing.name} {manualConversion ? `→ ${currentProcessing.format}` : ''}
+                  Processing {runningJobs.map(job => job.input.source.file.name).join(', ')} {manualConversion ? `→ ${selectedFormat}` : ''}
+                  {activeJobs.length > runningJobs.length && ` • ${activeJobs.length - runningJobs.length} queued`}
                 </p>
                 <div className="max-w-xs sm:max-w-md mx-auto">
                   <div className="flex justify-between text-xs sm:text-sm mb-2 sm:mb-3 font-medium">
                     <span className="text-slate-600 dark:text-slate-400">Progress</span>
-                    <span className="text-slate-900 dark:text-white">{Math.round(currentProcessing.progress)}%</span>
+                    <span className="text-slate-900 dark:text-white">{Math.round(queueProgress)}%</span>
                   </div>
                   <div className="w-full h-3 sm:h-4 bg-slate-200/50 dark:bg-slate-700/50 rounded-full overflow-hidden backdrop-blur-sm border border-white/20">
                     <div 
                       className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500 rounded-full shadow-lg"
-                      style={{ width: `${currentProcessing.progress}%` }}
+                      style={{ width: `${queueProgress}%` }}
                     />
                   </div>
                 </div>
@@ -393,8 +1004,18 @@ export const Finish = (): JSX.Element => {
                   {isDragging ? 'Drop your images here!' : 'Drag & drop your images'}
                 </h2>
                 <p className="text-slate-600 dark:text-slate-400 mb-6 sm:mb-8 text-sm sm:text-base lg:text-lg font-medium max-w-md mx-auto">
-                  Or click to browse • Up to 10 images • PNG, JPG, WebP supported
+                  Or click to browse, or paste a screenshot • Any number of images • PNG, JPG, WebP supported
                 </p>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handlePickFolder();
+                  }}
+                  className="inline-flex items-center gap-2 mb-6 sm:mb-8 px-3 sm:px-4 py-2 rounded-lg sm:rounded-xl glass-subtle text-slate-700 dark:text-slate-300 font-semibold text-xs sm:text-sm transition-all duration-300 hover:scale-105"
+                >
+                  <FolderOpen className="w-4 h-4" />
+                  Choose a folder
+                </button>
                 
                 {/* Manual Conversion Toggle */}
                 <div className="mb-6 sm:mb-8">
@@ -423,7 +1044,7 @@ export const Finish = (): JSX.Element => {
                   {manualConversion && (
                     <div className="animate-slide-up">
                       <div className="flex flex-wrap items-center justify-center gap-2 sm:gap-3 max-w-md mx-auto">
-                        {(['AVIF', 'WEBP', 'JPEG', 'PNG'] as ConversionFormat[]).map((format) => (
+                        {(['AUTO', ...CONVERSION_FORMATS] as OutputFormat[]).map((format) => (
                           <button
                             key={format}
                             onClick={(e) => {
@@ -441,6 +1062,7 @@ export const Finish = (): JSX.Element => {
                         ))}
                       </div>
                       <p className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 mt-3 sm:mt-4 font-medium">
+                        {selectedFormat === 'AUTO' && 'Tries every format your browser supports and keeps the smallest that passes the quality floor'}
                         {selectedFormat === 'AVIF' && 'Best compression, modern browsers'}
                         {selectedFormat === 'WEBP' && 'Great compression, wide support'}
                         {selectedFormat === 'JPEG' && 'Universal support, good for photos'}
@@ -459,28 +1081,204 @@ export const Finish = (): JSX.Element => {
         </Card>
 
         {/* Apple-style liquid glass results */}
-        {optimizedImages.length > 0 && (
+        {(optimizedImages.length > 0 || jobs.length > 0) && (
           <Card className="glass rounded-2xl shadow-2xl animate-slide-up">
             <CardContent className="p-6 sm:p-8 lg:p-10">
               <h2 className="text-xl sm:text-2xl lg:text-3xl font-bold text-slate-900 dark:text-white mb-6 sm:mb-8 flex flex-col sm:flex-row items-center gap-3 sm:gap-4 tracking-tight text-center sm:text-left">
                 <div className="w-10 h-10 sm:w-12 sm:h-12 glass-intense bg-gradient-to-br from-green-500/80 to-emerald-400/80 rounded-xl sm:rounded-2xl flex items-center justify-center shadow-lg shadow-green-500/25 animate-glow">
                   <CheckCircle className="w-5 h-5 sm:w-6 sm:h-6 text-white drop-shadow-sm" />
                 </div>
-                {manualConversion ? 'Conversion & Optimization Complete!' : 'Optimization Complete!'}
+                {isProcessing
+                  ? `${activeJobs.length} image${activeJobs.length === 1 ? '' : 's'} in queue`
+                  : manualConversion ? 'Conversion & Optimization Complete!' : 'Optimization Complete!'}
               </h2>
               
               <div className="space-y-3 sm:space-y-4">
-                {optimizedImages.map((image) => (
+                {jobs.map((job) => (
+                  <div key={job.id} className="relative glass-subtle rounded-xl sm:rounded-2xl p-4 sm:p-6 transition-all duration-300">
+                    <div className="flex flex-col sm:flex-row items-center gap-4 sm:gap-6">
+                      <div className="flex-1 min-w-0 w-full text-center sm:text-left">
+                        <div className="flex flex-col sm:flex-row items-center gap-2 sm:gap-4 mb-2">
+                          <h3 className="font-bold text-base sm:text-lg text-slate-900 dark:text-white truncate">
+                            {job.input.source.file.name}
+                          </h3>
+                          <span className={`glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs capitalize ${jobStatusClassName[job.status]}`}>
+                            {job.status}
+                          </span>
+                          {gpsJobIds.has(job.id) && (
+                            <span className="glass-subtle bg-amber-200/50 dark:bg-amber-600/50 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1">
+                              <MapPin className="w-3 h-3" />
+                              {job.input.settings.metadata.policy === 'keep' ? 'GPS location will be kept' : 'GPS location found, will be stripped'}
+                            </span>
+                          )}
+                          {animatedJobs.has(job.id) && (
+                            <span className="glass-subtle bg-purple-200/50 dark:bg-purple-600/50 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1">
+                              <Film className="w-3 h-3" />
+                              {job.input.animation === 'first-frame' ? 'Animated, first frame only' : formatAnimationSummary(animatedJobs.get(job.id)!)}
+                            </span>
+                          )}
+                        </div>
+                        {job.status === 'failed' && job.error && (
+                          <p className="text-xs sm:text-sm font-medium text-red-600 dark:text-red-400 break-words">
+                            {job.error}
+                          </p>
+                        )}
+                        {(job.status === 'running' || job.status === 'queued') && (
+                          <div className="w-full h-2 bg-slate-200/50 dark:bg-slate-700/50 rounded-full overflow-hidden backdrop-blur-sm border border-white/20">
+                            <div
+                              className="h-full bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-500 rounded-full"
+                              style={{ width: `${job.progress}%` }}
+                            />
+                          </div>
+                        )}
+                        {job.status === 'running' && job.step && (
+                          <p className="text-xs font-medium text-slate-500 dark:text-slate-400 truncate">
+                            {job.step}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="flex items-center gap-2 shrink-0">
+                        {(job.status === 'running' || job.status === 'queued') && (
+                          <Button
+                            onClick={() => getQueue().cancel(job.id)}
+                            className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                          >
+                            <Ban />
+                            Cancel
+                          </Button>
+                        )}
+                        {job.status === 'failed' && animatedJobs.has(job.id) && !job.input.animation && (
+                          <>
+                            {!canKeepAnimation(job.input.targetFormat) && (
+                              <Button
+                                onClick={() => handleAnimationChoice(job, 'animate')}
+                                className="glass-intense bg-gradient-to-r from-purple-500/80 to-pink-500/80 hover:from-purple-600/90 hover:to-pink-600/90 text-white border-0 shadow-lg shadow-purple-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                              >
+                                <Film />
+                                Keep animation as WebP
+                              </Button>
+                            )}
+                            <Button
+                              onClick={() => handleAnimationChoice(job, 'first-frame')}
+                              className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                            >
+                              <ImageIcon />
+                              Use first frame only
+                            </Button>
+                          </>
+                        )}
+                        {(job.status === 'failed' || job.status === 'cancelled') && (
+                          <>
+                            <Button
+                              onClick={() => getQueue().retry(job.id)}
+                              className="glass-intense bg-gradient-to-r from-blue-500/80 to-purple-500/80 hover:from-blue-600/90 hover:to-purple-600/90 text-white border-0 shadow-lg shadow-blue-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                            >
+                              <RotateCcw />
+                              Retry
+                            </Button>
+                            <button
+                              onClick={() => getQueue().remove(job.id)}
+                              className="w-8 h-8 sm:w-10 sm:h-10 glass-intense bg-red-500/80 hover:bg-red-500/90 rounded-full flex items-center justify-center shadow-lg"
+                              aria-label="Remove from queue"
+                            >
+                              <X className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                {optimizedImages.length > 0 && (
+                  <div className="glass-subtle rounded-xl sm:rounded-2xl p-4 sm:p-6 flex flex-col lg:flex-row lg:items-center gap-4 sm:gap-6">
+                    <div className="flex flex-wrap items-center justify-center lg:justify-start gap-2">
+                      <span className="text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400">Sort by</span>
+                      {RESULT_SORTS.map(({ key, label }) => (
+                        <button
+                          key={key}
+                          onClick={() => setResultSort(key)}
+                          className={`px-3 py-1.5 rounded-lg font-semibold text-xs sm:text-sm transition-all duration-300 ${
+                            resultSort === key
+                              ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+                              : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+                          }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <label className="block text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 mb-2">
+                        <span className="flex justify-between">
+                          <span>Quality floor (SSIM)</span>
+                          <span className="text-slate-900 dark:text-white">{qualityFloor.toFixed(3)}</span>
+                        </span>
+                      </label>
+                      <input
+                        type="range"
+                        min={0.8}
+                        max={1}
+                        step={0.005}
+                        value={qualityFloor}
+                        onChange={(e) => setQualityFloor(parseFloat(e.target.value))}
+                        className="w-full accent-blue-500"
+                      />
+                    </div>
+                    <label className="flex items-center justify-center gap-2 text-xs sm:text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={onlyBelowFloor}
+                        onChange={() => setOnlyBelowFloor(!onlyBelowFloor)}
+                        className="accent-blue-500"
+                      />
+                      Only below floor ({belowFloorCount})
+                    </label>
+                  </div>
+                )}
+
+                {visibleImages.map((image) => (
                   <div key={image.id} className="group relative glass-subtle rounded-xl sm:rounded-2xl p-4 sm:p-6 hover:shadow-xl hover:scale-102 hover:-translate-y-1 transition-all duration-300">
-                    <button
-                      onClick={() => handleDeleteImage(image.id)}
-                      className="absolute top-3 right-3 sm:top-4 sm:right-4 w-8 h-8 sm:w-10 sm:h-10 glass-intense bg-red-500/80 hover:bg-red-500/90 rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100 transition-all duration-300 shadow-lg z-10"
-                    >
-                      <X className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
-                    </button>
+                    <div className="absolute top-3 right-3 sm:top-4 sm:right-4 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-all duration-300 z-10">
+                      <button
+                        onClick={() => setCompareImageId(image.id)}
+                        className="w-8 h-8 sm:w-10 sm:h-10 glass-intense bg-slate-500/60 hover:bg-slate-500/80 rounded-full flex items-center justify-center shadow-lg transition-all duration-300"
+                        aria-label="Compare with original"
+                      >
+                        <Columns2 className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
+                      </button>
+                      {image.format !== 'SVG' && (
+                        <button
+                          onClick={() => handleEditImage(image)}
+                          className={`w-8 h-8 sm:w-10 sm:h-10 glass-intense rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ${
+                            image.transform ? 'bg-blue-500/80 hover:bg-blue-500/90' : 'bg-slate-500/60 hover:bg-slate-500/80'
+                          }`}
+                          aria-label="Crop, resize and rotate"
+                        >
+                          <Crop className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleEditImageSettings(image)}
+                        className={`w-8 h-8 sm:w-10 sm:h-10 glass-intense rounded-full flex items-center justify-center shadow-lg transition-all duration-300 ${
+                          image.settings ? 'bg-blue-500/80 hover:bg-blue-500/90' : 'bg-slate-500/60 hover:bg-slate-500/80'
+                        }`}
+                        aria-label="Image settings"
+                      >
+                        <Settings className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteImage(image.id)}
+                        className="w-8 h-8 sm:w-10 sm:h-10 glass-intense bg-red-500/80 hover:bg-red-500/90 rounded-full flex items-center justify-center shadow-lg"
+                        aria-label="Remove image"
+                      >
+                        <X className="w-4 h-4 sm:w-5 sm:h-5 text-white drop-shadow-sm" />
+                      </button>
+                    </div>
                     
                     <div className="flex flex-col sm:flex-row items-center gap-4 sm:gap-6">
-                      <div className="relative">
+                      <div className="relative cursor-zoom-in" onClick={() => setCompareImageId(image.id)}>
                         <img
                           className="w-16 h-16 sm:w-20 sm:h-20 object-cover rounded-xl sm:rounded-2xl shadow-lg glass-subtle transition-transform duration-300 group-hover:scale-110"
                           alt="Optimized thumbnail"
@@ -510,8 +1308,60 @@ export const Finish = (): JSX.Element => {
                                 {image.format}
                               </span>
                             )}
-                            {image.originalSize} → {image.optimizedSize}
+                            {formatFileSize(image.originalBytes)} → {formatFileSize(image.optimizedBytes)}
                           </span>
+                          {image.gps !== 'none' && (
+                            <span
+                              className={`glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1 ${
+                                image.gps === 'kept' ? 'bg-amber-200/50 dark:bg-amber-600/50' : 'bg-green-200/50 dark:bg-green-600/50'
+                              }`}
+                            >
+                              <MapPin className="w-3 h-3" />
+                              {image.gps === 'kept' ? 'GPS kept' : 'GPS stripped'}
+                            </span>
+                          )}
+                          {image.animation && (
+                            <span className="glass-subtle bg-purple-200/50 dark:bg-purple-600/50 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1">
+                              <Film className="w-3 h-3" />
+                              {formatAnimationSummary(image.animation)}
+                            </span>
+                          )}
+                          {image.metrics && (
+                            <span className="glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1 text-slate-700 dark:text-slate-300">
+                              <Gauge className="w-3 h-3" />
+                              {formatQualityMetrics(image.metrics)}
+                            </span>
+                          )}
+                          {image.search && (
+                            <span
+                              className={`glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1 ${
+                                image.search.met ? 'text-slate-700 dark:text-slate-300' : 'bg-amber-200/50 dark:bg-amber-600/50'
+                              }`}
+                            >
+                              <Crosshair className="w-3 h-3" />
+                              {formatSearchSummary(image.search)}
+                            </span>
+                          )}
+                          {isBelowFloor(image) && (
+                            <span
+                              title={`SSIM is under the ${qualityFloor.toFixed(3)} floor`}
+                              className="glass-subtle bg-amber-200/50 dark:bg-amber-600/50 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1"
+                            >
+                              <AlertTriangle className="w-3 h-3" />
+                              Below quality floor
+                            </span>
+                          )}
+                          {(violationsById.get(image.id) ?? []).length > 0 && (
+                            <span
+                              title={(violationsById.get(image.id) ?? [])
+                                .map(({ rule, fileName, bytes }) => `${fileName} is ${formatFileSize(bytes)}, over "${rule}"`)
+                                .join('\n')}
+                              className="glass-subtle bg-red-200/50 dark:bg-red-600/50 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs flex items-center gap-1"
+                            >
+                              <AlertTriangle className="w-3 h-3" />
+                              Over budget
+                            </span>
+                          )}
                         </div>
                       </div>
                       
@@ -520,13 +1370,152 @@ export const Finish = (): JSX.Element => {
                           image.compressionRatio > 50 ? 'text-green-600 dark:text-green-400' : 
                           image.compressionRatio > 25 ? 'text-blue-600 dark:text-blue-400' : 'text-orange-600 dark:text-orange-400'
                         }`}>
-                          -{image.compressionRatio}%
+                          {formatRatio(image.compressionRatio)}
                         </div>
                         <div className="text-xs sm:text-sm text-slate-500 dark:text-slate-400 font-medium">
                           {image.isConverted ? 'converted' : 'saved'}
                         </div>
                       </div>
                     </div>
+
+                    <div className="flex flex-wrap items-center justify-center sm:justify-start gap-2 mt-4">
+                      <button
+                        onClick={() => handleCopyImage(image)}
+                        className="flex items-center gap-2 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs glass-subtle text-slate-700 dark:text-slate-300 transition-all duration-300 hover:scale-105"
+                      >
+                        <Copy className="w-3 h-3" />
+                        Copy image
+                      </button>
+                      <button
+                        onClick={() => handleCopySnippet(image, 'markdown')}
+                        className="flex items-center gap-2 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs glass-subtle text-slate-700 dark:text-slate-300 transition-all duration-300 hover:scale-105"
+                      >
+                        <Code className="w-3 h-3" />
+                        Markdown
+                      </button>
+                      <button
+                        onClick={() => handleCopySnippet(image, 'html')}
+                        className="flex items-center gap-2 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs glass-subtle text-slate-700 dark:text-slate-300 transition-all duration-300 hover:scale-105"
+                      >
+                        <Code className="w-3 h-3" />
+                        &lt;img&gt;
+                      </button>
+                      {copyStatus?.id === image.id && (
+                        <span className="text-xs font-medium text-green-600 dark:text-green-400">{copyStatus.message}</span>
+                      )}
+                    </div>
+
+                    {image.format === 'SVG' && (
+                      <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-white/20">
+                        <button
+                          onClick={() => setDiffImageId(diffImageId === image.id ? null : image.id)}
+                          className="flex items-center gap-2 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs glass-subtle text-slate-700 dark:text-slate-300 transition-all duration-300 hover:scale-105 mb-3"
+                        >
+                          <FileDiff className="w-3 h-3" />
+                          {diffImageId === image.id ? 'Hide markup diff' : 'Show markup diff'}
+                        </button>
+                        {diffImageId === image.id && <SvgDiff original={image.file} optimized={image.blob} />}
+                      </div>
+                    )}
+
+                    {image.candidates && image.candidates.length > 0 && (
+                      <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-white/20">
+                        <div className="flex flex-wrap items-center justify-center sm:justify-start gap-2">
+                          {image.candidates.map((candidate) => (
+                            <button
+                              key={candidate.format}
+                              onClick={() => downloadBlob(candidate.blob, getOptimizedFileName(image.name, candidate.format))}
+                              title={`Download ${candidate.format} version`}
+                              className={`flex items-center gap-2 px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs transition-all duration-300 hover:scale-105 ${
+                                candidate.format === image.format
+                                  ? 'glass-intense bg-green-500/80 text-white shadow-lg shadow-green-500/25'
+                                  : 'glass-subtle text-slate-700 dark:text-slate-300'
+                              }`}
+                            >
+                              <Download className="w-3 h-3" />
+                              {candidate.format} · {formatFileSize(candidate.blob.size)} · SSIM {candidate.metrics.ssim.toFixed(3)}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {image.variants && image.variants.length > 0 && (
+                      <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-white/20">
+                        <div className="flex flex-wrap items-center justify-center sm:justify-start gap-2 mb-4">
+                          {image.variants.map((variant) => (
+                            <span key={variant.fileName} className="glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs text-slate-700 dark:text-slate-300">
+                              {variant.width}w · {variant.format} · {formatFileSize(variant.blob.size)}
+                            </span>
+                          ))}
+                        </div>
+                        <div className="flex flex-wrap items-center justify-center sm:justify-end gap-2 sm:gap-3">
+                          <Button
+                            onClick={() => handleCopyMarkup(image)}
+                            className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                          >
+                            <Code />
+                            Copy &lt;picture&gt;
+                          </Button>
+                          <Button
+                            onClick={() => handleDownloadResponsiveSet(image)}
+                            className="glass-intense bg-gradient-to-r from-purple-500/80 to-pink-500/80 hover:from-purple-600/90 hover:to-pink-600/90 text-white border-0 shadow-lg shadow-purple-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                          >
+                            <Package />
+                            Download set
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {croppingImageId === image.id && (
+                      <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-white/20">
+                        <ImageEditor
+                          title={`Edit ${image.name}`}
+                          file={getViewableSource(image)}
+                          transform={editingTransform}
+                          onChange={setEditingTransform}
+                        >
+                          <Button
+                            onClick={() => handleApplyEdits(image, editingTransform)}
+                            disabled={isProcessing}
+                            className="glass-intense bg-gradient-to-r from-blue-500/80 to-purple-500/80 hover:from-blue-600/90 hover:to-purple-600/90 text-white border-0 shadow-xl shadow-blue-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                          >
+                            <RefreshCw />
+                            Apply and re-optimize
+                          </Button>
+                        </ImageEditor>
+                      </div>
+                    )}
+
+                    {editingImageId === image.id && (
+                      <div className="mt-4 sm:mt-6 pt-4 sm:pt-6 border-t border-white/20">
+                        <SettingsPanel
+                          title={`Settings for ${image.name}`}
+                          settings={editingSettings}
+                          onChange={setEditingSettings}
+                          previewImage={getViewableSource(image)}
+                        >
+                          {image.settings && (
+                            <Button
+                              onClick={() => handleReoptimize(image)}
+                              disabled={isProcessing}
+                              className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                            >
+                              Use defaults
+                            </Button>
+                          )}
+                          <Button
+                            onClick={() => handleReoptimize(image, getSettingsOverride(settings, editingSettings))}
+                            disabled={isProcessing}
+                            className="glass-intense bg-gradient-to-r from-blue-500/80 to-purple-500/80 hover:from-blue-600/90 hover:to-purple-600/90 text-white border-0 shadow-xl shadow-blue-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+                          >
+                            <RefreshCw />
+                            Re-optimize
+                          </Button>
+                        </SettingsPanel>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -534,6 +1523,19 @@ export const Finish = (): JSX.Element => {
           </Card>
         )}
       </div>
+
+      {compareImage && (
+        <ComparisonModal
+          name={compareImage.name}
+          original={getViewableSource(compareImage)}
+          originalUrl={compareImage.originalUrl}
+          optimized={compareImage.blob}
+          optimizedUrl={compareImage.thumbnail}
+          originalLabel={`${compareImage.originalFormat} · ${formatFileSize(compareImage.originalBytes)}`}
+          optimizedLabel={`${compareImage.format} · ${formatFileSize(compareImage.optimizedBytes)}`}
+          onClose={() => setCompareImageId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,283 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, ZoomIn, ZoomOut, Maximize, Scan, Flame, Columns2 } from "lucide-react";
+import { createDifferenceHeatmap } from "../../../../lib/compare";
+
+interface ComparisonModalProps {
+  name: string;
+  original: Blob;
+  originalUrl: string;
+  optimized: Blob;
+  optimizedUrl: string;
+  originalLabel: string;
+  optimizedLabel: string;
+  onClose: () => void;
+}
+
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+type CompareMode = 'split' | 'heatmap';
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+const toolbarButtonClassName = (active = false) =>
+  `w-9 h-9 sm:w-10 sm:h-10 rounded-full flex items-center justify-center transition-all duration-300 ${
+    active
+      ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+      : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-105'
+  }`;
+
+export const ComparisonModal = ({
+  name,
+  original,
+  originalUrl,
+  optimized,
+  optimizedUrl,
+  originalLabel,
+  optimizedLabel,
+  onClose,
+}: ComparisonModalProps): JSX.Element => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ type: 'pan' | 'split'; startX: number; startY: number; origin: ViewState } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [view, setView] = useState<ViewState>({ zoom: 1, x: 0, y: 0 });
+  const [split, setSplit] = useState(50);
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [heatmapUrl, setHeatmapUrl] = useState<string | null>(null);
+  const [heatmapError, setHeatmapError] = useState(false);
+
+  const fitToViewport = (width: number, height: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const zoom = clampZoom(Math.min(viewport.clientWidth / width, viewport.clientHeight / height, 1));
+    setView({
+      zoom,
+      x: (viewport.clientWidth - width * zoom) / 2,
+      y: (viewport.clientHeight - height * zoom) / 2,
+    });
+  };
+
+  // Zooms while keeping the given viewport point fixed under the cursor
+  const zoomAt = (nextZoom: number, pointX?: number, pointY?: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const px = pointX ?? viewport.clientWidth / 2;
+    const py = pointY ?? viewport.clientHeight / 2;
+    setView((prev) => {
+      const zoom = clampZoom(nextZoom);
+      const ratio = zoom / prev.zoom;
+      return { zoom, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // React registers wheel listeners as passive, so preventDefault needs a native listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = Math.exp(-e.deltaY * 0.0015);
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setView((prev) => {
+        const zoom = clampZoom(prev.zoom * factor);
+        const ratio = zoom / prev.zoom;
+        return { zoom, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+      });
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    if (mode !== 'heatmap' || heatmapUrl) return;
+    let cancelled = false;
+    let url: string | null = null;
+    createDifferenceHeatmap(original, optimized)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setHeatmapUrl(url);
+      })
+      .catch((error) => {
+        console.error('Error rendering difference heatmap:', error);
+        setHeatmapError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [mode, heatmapUrl, original, optimized]);
+
+  useEffect(() => () => {
+    if (heatmapUrl) URL.revokeObjectURL(heatmapUrl);
+  }, [heatmapUrl]);
+
+  const handlePointerDown = (e: React.PointerEvent, type: 'pan' | 'split') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { type, startX: e.clientX, startY: e.clientY, origin: view };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const viewport = viewportRef.current;
+    if (!drag || !viewport) return;
+
+    if (drag.type === 'split') {
+      const rect = viewport.getBoundingClientRect();
+      setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+      return;
+    }
+
+    setView({
+      zoom: drag.origin.zoom,
+      x: drag.origin.x + e.clientX - drag.startX,
+      y: drag.origin.y + e.clientY - drag.startY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const renderLayer = (src: string) => size && (
+    <div
+      className="absolute left-0 top-0 origin-top-left"
+      style={{
+        width: size.width,
+        height: size.height,
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+      }}
+    >
+      <img
+        src={src}
+        alt=""
+        draggable={false}
+        className="w-full h-full select-none"
+        style={{ imageRendering: view.zoom >= 1 ? 'pixelated' : 'auto' }}
+      />
+    </div>
+  );
+
+  const overlayUrl = mode === 'heatmap' ? heatmapUrl : optimizedUrl;
+  // One image pixel per device pixel
+  const actualPixelZoom = 1 / window.devicePixelRatio;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 sm:p-8 bg-slate-950/60 backdrop-blur-sm animate-slide-up"
+      onClick={onClose}
+    >
+      <div
+        className="glass rounded-2xl shadow-2xl w-full max-w-6xl h-full max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-col sm:flex-row items-center justify-between gap-3 p-4 sm:p-6">
+          <h3 className="font-bold text-base sm:text-lg text-slate-900 dark:text-white truncate max-w-full">
+            {name}
+          </h3>
+          <div className="flex items-center gap-2 shrink-0">
+            <button className={toolbarButtonClassName(mode === 'split')} onClick={() => setMode('split')} aria-label="Split view">
+              <Columns2 className="w-4 h-4" />
+            </button>
+            <button className={toolbarButtonClassName(mode === 'heatmap')} onClick={() => setMode('heatmap')} aria-label="Difference heatmap">
+              <Flame className="w-4 h-4" />
+            </button>
+            <span className="w-px h-6 bg-slate-300/50 dark:bg-slate-600/50 mx-1" />
+            <button className={toolbarButtonClassName()} onClick={() => zoomAt(view.zoom / 1.5)} aria-label="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </button>
+            <span className="w-14 text-center text-xs sm:text-sm font-semibold text-slate-900 dark:text-white">
+              {Math.round(view.zoom * window.devicePixelRatio * 100)}%
+            </span>
+            <button className={toolbarButtonClassName()} onClick={() => zoomAt(view.zoom * 1.5)} aria-label="Zoom in">
+              <ZoomIn className="w-4 h-4" />
+            </button>
+            <button className={toolbarButtonClassName()} onClick={() => size && fitToViewport(size.width, size.height)} aria-label="Fit to view">
+              <Maximize className="w-4 h-4" />
+            </button>
+            <button
+              className={toolbarButtonClassName(Math.abs(view.zoom - actualPixelZoom) < 0.001)}
+              onClick={() => zoomAt(actualPixelZoom)}
+              aria-label="Actual pixels"
+            >
+              <Scan className="w-4 h-4" />
+            </button>
+            <span className="w-px h-6 bg-slate-300/50 dark:bg-slate-600/50 mx-1" />
+            <button
+              className="w-9 h-9 sm:w-10 sm:h-10 glass-intense bg-red-500/80 hover:bg-red-500/90 rounded-full flex items-center justify-center shadow-lg"
+              onClick={onClose}
+              aria-label="Close comparison"
+            >
+              <X className="w-4 h-4 text-white" />
+            </button>
+          </div>
+        </div>
+
+        <div
+          ref={viewportRef}
+          className="relative flex-1 mx-4 mb-4 sm:mx-6 sm:mb-6 rounded-xl overflow-hidden bg-slate-900/80 cursor-grab active:cursor-grabbing touch-none"
+          onPointerDown={(e) => handlePointerDown(e, 'pan')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* The original decides the stage size; the optimized image is stretched onto it */}
+          <img
+            src={originalUrl}
+            alt=""
+            className="hidden"
+            onLoad={(e) => {
+              const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+              setSize({ width, height });
+              fitToViewport(width, height);
+            }}
+          />
+
+          {renderLayer(originalUrl)}
+
+          {overlayUrl && (
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+              {renderLayer(overlayUrl)}
+            </div>
+          )}
+
+          <div
+            className="absolute top-0 bottom-0 w-8 -ml-4 flex justify-center cursor-ew-resize"
+            style={{ left: `${split}%` }}
+            onPointerDown={(e) => handlePointerDown(e, 'split')}
+          >
+            <div className="w-0.5 h-full bg-white/90 shadow-lg" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 glass-intense rounded-full flex items-center justify-center shadow-xl">
+              <Columns2 className="w-4 h-4 text-white" />
+            </div>
+          </div>
+
+          <span className="absolute top-3 left-3 glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs text-white pointer-events-none">
+            Original · {originalLabel}
+          </span>
+          <span className="absolute top-3 right-3 glass-subtle px-2 sm:px-3 py-1 rounded-md sm:rounded-lg font-semibold text-xs text-white pointer-events-none">
+            {mode === 'heatmap'
+              ? heatmapError ? 'Difference unavailable' : heatmapUrl ? 'Difference' : 'Computing difference...'
+              : `Optimized · ${optimizedLabel}`}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { ComparisonModal } from "./ComparisonModal";
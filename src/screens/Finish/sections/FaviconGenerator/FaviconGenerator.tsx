@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+import { Code, Package, Upload } from "lucide-react";
+import { Button } from "../../../../components/ui/button";
+import { ArchiveEntry, createZip } from "../../../../lib/zip";
+import { downloadBlob } from "../../../../lib/files";
+import { DEFAULT_FAVICON_OPTIONS, FaviconOptions, buildFaviconFiles, buildLinkTags, renderFaviconIcons } from "../../../../lib/favicons";
+
+const inputClassName =
+  "w-full glass-subtle rounded-lg px-3 py-2 text-sm font-semibold text-slate-900 dark:text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const labelClassName = "block text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 mb-2";
+
+interface PreviewIcon {
+  path: string;
+  url: string;
+}
+
+export const FaviconGenerator = (): JSX.Element => {
+  const [logo, setLogo] = useState<File | null>(null);
+  const [options, setOptions] = useState<FaviconOptions>(DEFAULT_FAVICON_OPTIONS);
+  const [icons, setIcons] = useState<ArchiveEntry[]>([]);
+  const [previews, setPreviews] = useState<PreviewIcon[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Re-render when anything that affects pixels changes; a newer run wins over a slower older one
+  useEffect(() => {
+    if (!logo) return;
+    let cancelled = false;
+    setIsGenerating(true);
+    renderFaviconIcons(logo, options)
+      .then((rendered) => {
+        if (cancelled) return;
+        setIcons(rendered);
+        setPreviews(rendered
+          .filter(({ path }) => path !== 'favicon.ico')
+          .map(({ path, blob }) => ({ path, url: URL.createObjectURL(blob) })));
+      })
+      .catch((error) => console.error('Error generating icons:', error))
+      .finally(() => {
+        if (!cancelled) setIsGenerating(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [logo, options.backgroundColor, options.maskablePadding]);
+
+  useEffect(() => () => previews.forEach(({ url }) => URL.revokeObjectURL(url)), [previews]);
+
+  const update = <K extends keyof FaviconOptions>(key: K, value: FaviconOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleLogoInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file?.type.startsWith('image/')) setLogo(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file?.type.startsWith('image/')) setLogo(file);
+  };
+
+  const handleCopyTags = async () => {
+    try {
+      await navigator.clipboard.writeText(buildLinkTags(options));
+    } catch (error) {
+      console.error('Error copying tags:', error);
+    }
+  };
+
+  const handleDownload = async () => {
+    try {
+      downloadBlob(await createZip([...icons, ...buildFaviconFiles(options)]), 'favicons.zip');
+    } catch (error) {
+      console.error('Error creating archive:', error);
+    }
+  };
+
+  return (
+    <div className="animate-slide-up">
+      <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-4 sm:mb-6 tracking-tight">
+        Favicon and app icon pack
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+        <label
+          onDrop={handleDrop}
+          onDragOver={(e) => e.preventDefault()}
+          className="sm:col-span-2 glass-subtle rounded-xl p-6 flex flex-col items-center justify-center gap-2 cursor-pointer text-sm font-medium text-slate-600 dark:text-slate-400"
+        >
+          <input type="file" accept="image/*" className="hidden" onChange={handleLogoInput} />
+          <Upload className="w-6 h-6" />
+          {logo ? `${logo.name} · drop another logo to replace it` : 'Drop a square logo (SVG or PNG works best) or click to choose'}
+        </label>
+
+        <div>
+          <label className={labelClassName}>App name</label>
+          <input type="text" value={options.name} onChange={(e) => update('name', e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className={labelClassName}>Short name</label>
+          <input type="text" value={options.shortName} onChange={(e) => update('shortName', e.target.value)} className={inputClassName} />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClassName}>Theme colour</label>
+            <input type="color" value={options.themeColor} onChange={(e) => update('themeColor', e.target.value)} className="w-full h-10 rounded-lg bg-transparent" />
+          </div>
+          <div>
+            <label className={labelClassName}>Background</label>
+            <input type="color" value={options.backgroundColor} onChange={(e) => update('backgroundColor', e.target.value)} className="w-full h-10 rounded-lg bg-transparent" />
+          </div>
+        </div>
+        <div>
+          <label className={labelClassName}>Path prefix</label>
+          <input type="text" value={options.basePath} onChange={(e) => update('basePath', e.target.value)} className={inputClassName} />
+        </div>
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>
+            <span className="flex justify-between">
+              <span>Maskable icon padding</span>
+              <span className="text-slate-900 dark:text-white">{Math.round(options.maskablePadding * 100)}%</span>
+            </span>
+          </label>
+          <input
+            type="range"
+            min={0}
+            max={0.25}
+            step={0.01}
+            value={options.maskablePadding}
+            onChange={(e) => update('maskablePadding', parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </div>
+      </div>
+
+      {previews.length > 0 && (
+        <div className="flex flex-wrap items-end gap-3 sm:gap-4 mt-6">
+          {previews.map(({ path, url }) => (
+            <figure key={path} className="flex flex-col items-center gap-1">
+              <img
+                src={url}
+                alt={path}
+                className="w-12 h-12 sm:w-16 sm:h-16 object-contain rounded-lg glass-subtle"
+                style={path.startsWith('maskable') ? { borderRadius: '50%' } : undefined}
+              />
+              <figcaption className="text-[10px] sm:text-xs text-slate-500 dark:text-slate-400 max-w-[5rem] truncate">{path}</figcaption>
+            </figure>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-end gap-2 sm:gap-3 mt-6">
+        <Button
+          onClick={handleCopyTags}
+          className="glass-subtle text-slate-700 dark:text-slate-300 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+        >
+          <Code />
+          Copy &lt;link&gt; tags
+        </Button>
+        <Button
+          onClick={handleDownload}
+          disabled={icons.length === 0 || isGenerating}
+          className="glass-intense bg-gradient-to-r from-purple-500/80 to-pink-500/80 hover:from-purple-600/90 hover:to-pink-600/90 text-white border-0 shadow-lg shadow-purple-500/25 font-semibold rounded-lg sm:rounded-xl transition-all duration-300 hover:scale-105"
+        >
+          <Package />
+          {isGenerating ? 'Generating...' : 'Download icon pack (.zip)'}
+        </Button>
+      </div>
+    </div>
+  );
+};
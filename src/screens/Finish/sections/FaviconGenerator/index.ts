@@ -0,0 +1 @@
+export { FaviconGenerator } from "./FaviconGenerator";
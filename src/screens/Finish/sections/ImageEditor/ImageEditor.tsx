@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from "react";
+import { RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2 } from "lucide-react";
+import { renderForEncoding } from "../../../../lib/render";
+import {
+  CROP_PRESETS,
+  CropPreset,
+  FIT_MODES,
+  IDENTITY_TRANSFORM,
+  ImageTransform,
+  Rotation,
+  getTransformGeometry,
+} from "../../../../lib/transform";
+
+interface ImageEditorProps {
+  title: string;
+  file: Blob;
+  transform: ImageTransform;
+  onChange: (transform: ImageTransform) => void;
+  children?: React.ReactNode;
+}
+
+const PREVIEW_SIZE = 480;
+
+const inputClassName =
+  "w-full glass-subtle rounded-lg px-3 py-2 text-sm font-semibold text-slate-900 dark:text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const labelClassName = "block text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 mb-2";
+
+const chipClassName = (active: boolean) =>
+  `px-3 py-1.5 rounded-lg font-semibold text-xs sm:text-sm transition-all duration-300 ${
+    active
+      ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+      : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+  }`;
+
+const isPresetActive = (preset: CropPreset, { aspectRatio, resize }: ImageTransform) =>
+  preset.aspectRatio === aspectRatio &&
+  (preset.resize
+    ? resize?.width === preset.resize.width && resize.height === preset.resize.height && resize.fit === preset.resize.fit
+    : true);
+
+export const ImageEditor = ({ title, file, transform, onChange, children }: ImageEditorProps): JSX.Element => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    createImageBitmap(file, { imageOrientation: 'from-image' })
+      .then((result) => {
+        loaded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch((error) => console.error('Error loading image for editing:', error));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [file]);
+
+  const geometry = bitmap && getTransformGeometry(bitmap.width, bitmap.height, transform);
+
+  // The preview shows the whole rotated frame; the crop is drawn over it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!bitmap || !geometry || !canvas) return;
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(geometry.rotatedWidth, geometry.rotatedHeight));
+    canvas.width = Math.max(1, Math.round(geometry.rotatedWidth * scale));
+    canvas.height = Math.max(1, Math.round(geometry.rotatedHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    renderForEncoding(ctx, bitmap, 'PNG', canvas.width, canvas.height, { ...transform, aspectRatio: null, resize: null });
+  }, [bitmap, transform.rotate, transform.flipHorizontal, transform.flipVertical]);
+
+  const update = (patch: Partial<ImageTransform>) => onChange({ ...transform, ...patch });
+
+  const rotateBy = (degrees: 90 | -90) => {
+    const rotate = ((transform.rotate + degrees + 360) % 360) as Rotation;
+    // The focal point is stored in the rotated frame, so it turns with the image
+    const { x, y } = transform.focalPoint;
+    update({ rotate, focalPoint: degrees === 90 ? { x: 1 - y, y: x } : { x: y, y: 1 - x } });
+  };
+
+  const flip = (axis: 'flipHorizontal' | 'flipVertical') => {
+    const { x, y } = transform.focalPoint;
+    update({
+      [axis]: !transform[axis],
+      focalPoint: axis === 'flipHorizontal' ? { x: 1 - x, y } : { x, y: 1 - y },
+    });
+  };
+
+  const handlePreviewClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    update({
+      focalPoint: {
+        x: clamp((e.clientX - rect.left) / rect.width),
+        y: clamp((e.clientY - rect.top) / rect.height),
+      },
+    });
+  };
+
+  const updateResize = (patch: Partial<NonNullable<ImageTransform['resize']>>) => {
+    if (!transform.resize) return;
+    update({ resize: { ...transform.resize, ...patch } });
+  };
+
+  const updateDimension = (key: 'width' | 'height', raw: string) => {
+    const value = parseInt(raw, 10);
+    if (value > 0) updateResize({ [key]: value });
+  };
+
+  const toggleExactSize = () => {
+    if (transform.resize) {
+      update({ resize: null });
+    } else if (geometry) {
+      update({ resize: { width: geometry.width, height: geometry.height, fit: 'cover' } });
+    }
+  };
+
+  const toPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <div className="animate-slide-up" onClick={(e) => e.stopPropagation()}>
+      <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-4 sm:mb-6 tracking-tight">
+        {title}
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 sm:gap-6">
+        <div className="flex flex-col items-center gap-2">
+          <div className="relative inline-block max-w-full">
+            <canvas
+              ref={canvasRef}
+              onClick={handlePreviewClick}
+              className="block max-w-full h-auto rounded-lg shadow-lg cursor-crosshair"
+            />
+            {geometry && (
+              <>
+                <div
+                  className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] pointer-events-none"
+                  style={{
+                    left: toPercent(geometry.crop.x, geometry.rotatedWidth),
+                    top: toPercent(geometry.crop.y, geometry.rotatedHeight),
+                    width: toPercent(geometry.crop.width, geometry.rotatedWidth),
+                    height: toPercent(geometry.crop.height, geometry.rotatedHeight),
+                  }}
+                />
+                <div
+                  className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-blue-500/80 shadow-lg pointer-events-none"
+                  style={{ left: `${transform.focalPoint.x * 100}%`, top: `${transform.focalPoint.y * 100}%` }}
+                />
+              </>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400">
+            Click the preview to set the focal point{geometry && ` · output ${geometry.width} × ${geometry.height}`}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-4 sm:gap-6">
+          <div>
+            <label className={labelClassName}>Rotate and flip</label>
+            <div className="flex flex-wrap items-center gap-2">
+              <button onClick={() => rotateBy(-90)} className={chipClassName(false)} aria-label="Rotate left">
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button onClick={() => rotateBy(90)} className={chipClassName(false)} aria-label="Rotate right">
+                <RotateCw className="w-4 h-4" />
+              </button>
+              <button onClick={() => flip('flipHorizontal')} className={chipClassName(transform.flipHorizontal)} aria-label="Flip horizontally">
+                <FlipHorizontal2 className="w-4 h-4" />
+              </button>
+              <button onClick={() => flip('flipVertical')} className={chipClassName(transform.flipVertical)} aria-label="Flip vertically">
+                <FlipVertical2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Crop</label>
+            <div className="flex flex-wrap items-center gap-2">
+              {CROP_PRESETS.map((preset) => (
+                <button
+                  key={preset.label}
+                  onClick={() => update({ aspectRatio: preset.aspectRatio, resize: preset.resize ?? null })}
+                  className={chipClassName(isPresetActive(preset, transform))}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 mb-2 cursor-pointer">
+              <input type="checkbox" checked={transform.resize !== null} onChange={toggleExactSize} className="accent-blue-500" />
+              Exact output size
+            </label>
+            {transform.resize && (
+              <div className="flex flex-col gap-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={transform.resize.width}
+                    onChange={(e) => updateDimension('width', e.target.value)}
+                    className={inputClassName}
+                    aria-label="Width"
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    value={transform.resize.height}
+                    onChange={(e) => updateDimension('height', e.target.value)}
+                    className={inputClassName}
+                    aria-label="Height"
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {FIT_MODES.map((fit) => (
+                    <button key={fit} onClick={() => updateResize({ fit })} className={chipClassName(transform.resize?.fit === fit)}>
+                      {fit}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Cover crops around the focal point, contain fits inside the box, fill stretches to it.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-end gap-2 sm:gap-3 mt-6">
+        <button onClick={() => onChange(IDENTITY_TRANSFORM)} className={chipClassName(false)}>
+          Reset edits
+        </button>
+        {children}
+      </div>
+    </div>
+  );
+};
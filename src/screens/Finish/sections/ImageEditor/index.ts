@@ -0,0 +1 @@
+export { ImageEditor } from "./ImageEditor";
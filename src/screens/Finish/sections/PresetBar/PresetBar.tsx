@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { Download, Link, Save, Upload, X } from "lucide-react";
+import { CompressionSettings } from "../../../../lib/settings";
+import { OutputFormat } from "../../../../lib/formats";
+import { downloadBlob } from "../../../../lib/files";
+import {
+  BUILT_IN_PRESETS,
+  Preset,
+  createPreset,
+  getPresetUrl,
+  loadPresets,
+  matchesPreset,
+  mergePresets,
+  parsePresetFile,
+  savePresets,
+  toPresetFile,
+} from "../../../../lib/presets";
+
+interface PresetBarProps {
+  settings: CompressionSettings;
+  targetFormat: OutputFormat | null;
+  onApply: (preset: Preset) => void;
+}
+
+const inputClassName =
+  "flex-1 min-w-0 glass-subtle rounded-lg px-3 py-1.5 text-sm font-semibold text-slate-900 dark:text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const chipClassName = (active: boolean) =>
+  `flex items-center gap-1 px-3 py-1.5 rounded-lg font-semibold text-xs sm:text-sm transition-all duration-300 ${
+    active
+      ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+      : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+  }`;
+
+export const PresetBar = ({ settings, targetFormat, onApply }: PresetBarProps): JSX.Element => {
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [name, setName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  const store = (next: Preset[]) => {
+    setPresets(next);
+    try {
+      savePresets(next);
+    } catch (error) {
+      console.error('Error saving presets:', error);
+      setStatus('Presets could not be saved in this browser');
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    store(mergePresets(presets, [createPreset(trimmed, settings, targetFormat)]));
+    setName('');
+    setStatus(`Saved "${trimmed}"`);
+  };
+
+  const handleDelete = (preset: Preset) => {
+    store(presets.filter((candidate) => candidate !== preset));
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([toPresetFile(presets)], { type: 'application/json' }), 'smollr-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      store(mergePresets(presets, imported));
+      setStatus(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error importing presets:', error);
+      setStatus(error instanceof Error ? error.message : 'Could not read that preset file');
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getPresetUrl(createPreset(name.trim() || 'Shared settings', settings, targetFormat)));
+      setStatus('Link to these settings copied');
+    } catch (error) {
+      console.error('Error copying preset link:', error);
+    }
+  };
+
+  return (
+    <div className="mb-6 sm:mb-8 pb-6 sm:pb-8 border-b border-white/20">
+      <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-4 tracking-tight">
+        Presets
+      </h3>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {BUILT_IN_PRESETS.map((preset) => (
+          <button key={preset.name} onClick={() => onApply(preset)} className={chipClassName(matchesPreset(preset, settings, targetFormat))}>
+            {preset.name}
+          </button>
+        ))}
+        {presets.map((preset) => (
+          <span key={preset.name} className={chipClassName(matchesPreset(preset, settings, targetFormat))}>
+            <button onClick={() => onApply(preset)}>{preset.name}</button>
+            <button onClick={() => handleDelete(preset)} aria-label={`Delete ${preset.name}`} className="opacity-60 hover:opacity-100">
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          placeholder="Name the current settings"
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          className={inputClassName}
+        />
+        <button onClick={handleSave} disabled={!name.trim()} className={chipClassName(false)}>
+          <Save className="w-3 h-3" />
+          Save
+        </button>
+        <button onClick={handleCopyLink} className={chipClassName(false)}>
+          <Link className="w-3 h-3" />
+          Copy link
+        </button>
+        <button onClick={handleExport} disabled={presets.length === 0} className={chipClassName(false)}>
+          <Download className="w-3 h-3" />
+          Export
+        </button>
+        <label className={`${chipClassName(false)} cursor-pointer`}>
+          <input type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <Upload className="w-3 h-3" />
+          Import
+        </label>
+      </div>
+
+      {status && <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{status}</p>}
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { PresetBar } from "./PresetBar";
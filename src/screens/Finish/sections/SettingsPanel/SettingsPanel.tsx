@@ -0,0 +1,730 @@
+import React from "react";
+import { CompressionSettings } from "../../../../lib/settings";
+import { ChromaSubsampling, CodecSettings, EncoderEngine } from "../../../../lib/codecs";
+import { MetadataPolicy, MetadataSettings } from "../../../../lib/metadata";
+import { CONVERSION_FORMATS, ConversionFormat } from "../../../../lib/formats";
+import { ResponsiveSettings, parseWidths } from "../../../../lib/responsive";
+import { formatBudgetRule, parseBudgetRules } from "../../../../lib/budget";
+import { SvgSettings } from "../../../../lib/svg";
+import { QualitySearchMode } from "../../../../lib/quality";
+import {
+  WATERMARK_KINDS,
+  WATERMARK_POSITIONS,
+  WatermarkKind,
+  WatermarkSettings,
+  readWatermarkLogo,
+} from "../../../../lib/watermark";
+import { WatermarkPreview } from "../WatermarkPreview";
+
+interface SettingsPanelProps {
+  title: string;
+  settings: CompressionSettings;
+  onChange: (settings: CompressionSettings) => void;
+  // Budgets apply to the whole session, so per-image panels leave them out
+  showBudgets?: boolean;
+  // Drawn under the watermark preview; a placeholder is used without one
+  previewImage?: Blob;
+  children?: React.ReactNode;
+}
+
+const inputClassName =
+  "w-full glass-subtle rounded-lg px-3 py-2 text-sm font-semibold text-slate-900 dark:text-white bg-transparent focus:outline-none focus:ring-2 focus:ring-blue-500/50";
+
+const labelClassName = "block text-xs sm:text-sm font-medium text-slate-600 dark:text-slate-400 mb-2";
+
+const Toggle = ({ checked, onToggle, label }: { checked: boolean; onToggle: () => void; label: string }) => (
+  <div className="sm:col-span-2 flex items-center gap-3 sm:gap-4">
+    <button
+      onClick={onToggle}
+      className={`w-5 h-5 sm:w-6 sm:h-6 rounded-full border-2 transition-all duration-300 flex items-center justify-center ${
+        checked
+          ? 'bg-blue-500 border-blue-500 shadow-lg shadow-blue-500/25'
+          : 'border-slate-300 dark:border-slate-600 hover:border-blue-400'
+      }`}
+    >
+      {checked && (
+        <div className="w-2 h-2 sm:w-3 sm:h-3 bg-white rounded-full"></div>
+      )}
+    </button>
+    <span className="text-slate-700 dark:text-slate-300 font-medium text-sm sm:text-base">
+      {label}
+    </span>
+  </div>
+);
+
+const ChoiceChips = <T extends string>({ options, value, onSelect }: {
+  options: readonly T[];
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="flex flex-wrap items-center gap-2">
+    {options.map((option) => (
+      <button
+        key={option}
+        onClick={() => onSelect(option)}
+        className={`px-3 py-1.5 rounded-lg font-semibold text-xs sm:text-sm transition-all duration-300 ${
+          value === option
+            ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+            : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+        }`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+const RangeField = ({ label, value, min, max, onChange }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div>
+    <label className={labelClassName}>
+      <span className="flex justify-between">
+        <span>{label}</span>
+        <span className="text-slate-900 dark:text-white">{value}</span>
+      </span>
+    </label>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={1}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className="w-full accent-blue-500"
+    />
+  </div>
+);
+
+const METADATA_POLICIES: MetadataPolicy[] = ['strip', 'keep', 'custom'];
+
+const METADATA_DESCRIPTIONS: Record<MetadataPolicy, string> = {
+  strip: 'Remove EXIF, GPS and colour profiles',
+  keep: 'Copy EXIF (including GPS) and mark colours as sRGB, which they are converted to',
+  custom: 'Keep only the blocks selected below',
+};
+
+const QUALITY_SEARCH_MODES: QualitySearchMode[] = ['off', 'ssim', 'size'];
+
+const QUALITY_SEARCH_DESCRIPTIONS: Record<QualitySearchMode, string> = {
+  off: 'Encode at the quality above',
+  ssim: 'Find the lowest quality that keeps the SSIM target below',
+  size: 'Find the highest quality that fits the target size',
+};
+
+const WATERMARK_DESCRIPTIONS: Record<WatermarkKind, string> = {
+  none: 'No overlay',
+  text: 'Draw a line of text over every raster output',
+  logo: 'Draw an uploaded image over every raster output',
+};
+
+const ENGINES: EncoderEngine[] = ['wasm', 'browser'];
+const SUBSAMPLING: ChromaSubsampling[] = ['4:2:0', '4:4:4'];
+
+const ENGINE_LABELS: Record<ConversionFormat, string> = {
+  AVIF: 'libavif',
+  WEBP: 'libwebp',
+  JPEG: 'MozJPEG',
+  PNG: 'OxiPNG',
+};
+
+const EncoderFields = ({ codecs, onChange }: { codecs: CodecSettings; onChange: (codecs: CodecSettings) => void }) => {
+  const patch = <F extends ConversionFormat>(format: F, value: Partial<CodecSettings[F]>) => {
+    onChange({ ...codecs, [format]: { ...codecs[format], ...value } });
+  };
+
+  return (
+    <div className="sm:col-span-2 space-y-4">
+      {CONVERSION_FORMATS.map((format) => {
+        const codec = codecs[format];
+        const isWasm = codec.engine === 'wasm';
+        return (
+          <div key={format} className="glass-subtle rounded-xl p-3 sm:p-4 space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-bold text-sm text-slate-900 dark:text-white">
+                {format}
+                <span className="ml-2 font-medium text-xs text-slate-500 dark:text-slate-400">
+                  {isWasm ? ENGINE_LABELS[format] : 'browser canvas'}
+                </span>
+              </span>
+              <ChoiceChips options={ENGINES} value={codec.engine} onSelect={(engine) => patch(format, { engine })} />
+            </div>
+
+            {isWasm && format === 'JPEG' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClassName}>Chroma subsampling</label>
+                  <ChoiceChips
+                    options={SUBSAMPLING}
+                    value={codecs.JPEG.chromaSubsampling}
+                    onSelect={(chromaSubsampling) => patch('JPEG', { chromaSubsampling })}
+                  />
+                </div>
+                <Toggle
+                  checked={codecs.JPEG.progressive}
+                  onToggle={() => patch('JPEG', { progressive: !codecs.JPEG.progressive })}
+                  label="Progressive"
+                />
+                <Toggle
+                  checked={codecs.JPEG.trellis}
+                  onToggle={() => patch('JPEG', { trellis: !codecs.JPEG.trellis })}
+                  label="Trellis quantisation"
+                />
+              </div>
+            )}
+
+            {isWasm && format === 'WEBP' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <RangeField label="Effort" value={codecs.WEBP.effort} min={0} max={6} onChange={(effort) => patch('WEBP', { effort })} />
+                <Toggle
+                  checked={codecs.WEBP.lossless}
+                  onToggle={() => patch('WEBP', { lossless: !codecs.WEBP.lossless })}
+                  label="Lossless"
+                />
+                <Toggle
+                  checked={codecs.WEBP.sharpYuv}
+                  onToggle={() => patch('WEBP', { sharpYuv: !codecs.WEBP.sharpYuv })}
+                  label="Sharp RGB→YUV conversion"
+                />
+              </div>
+            )}
+
+            {isWasm && format === 'AVIF' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <RangeField label="Effort" value={codecs.AVIF.effort} min={0} max={10} onChange={(effort) => patch('AVIF', { effort })} />
+                <div>
+                  <label className={labelClassName}>Chroma subsampling</label>
+                  <ChoiceChips
+                    options={SUBSAMPLING}
+                    value={codecs.AVIF.chromaSubsampling}
+                    onSelect={(chromaSubsampling) => patch('AVIF', { chromaSubsampling })}
+                  />
+                </div>
+                <Toggle
+                  checked={codecs.AVIF.lossless}
+                  onToggle={() => patch('AVIF', { lossless: !codecs.AVIF.lossless })}
+                  label="Lossless"
+                />
+              </div>
+            )}
+
+            {isWasm && format === 'PNG' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <RangeField label="Effort" value={codecs.PNG.effort} min={0} max={6} onChange={(effort) => patch('PNG', { effort })} />
+                <Toggle
+                  checked={codecs.PNG.quantize}
+                  onToggle={() => patch('PNG', { quantize: !codecs.PNG.quantize })}
+                  label="Reduce palette (lossy)"
+                />
+                {codecs.PNG.quantize && (
+                  <>
+                    <RangeField label="Max colours" value={codecs.PNG.maxColors} min={2} max={256} onChange={(maxColors) => patch('PNG', { maxColors })} />
+                    <div>
+                      <label className={labelClassName}>
+                        <span className="flex justify-between">
+                          <span>Dithering</span>
+                          <span className="text-slate-900 dark:text-white">{Math.round(codecs.PNG.dithering * 100)}%</span>
+                        </span>
+                      </label>
+                      <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        value={codecs.PNG.dithering}
+                        onChange={(e) => patch('PNG', { dithering: parseFloat(e.target.value) })}
+                        className="w-full accent-blue-500"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export const SettingsPanel = ({
+  title,
+  settings,
+  onChange,
+  showBudgets = false,
+  previewImage,
+  children,
+}: SettingsPanelProps): JSX.Element => {
+  const update = <K extends keyof CompressionSettings>(key: K, value: CompressionSettings[K]) => {
+    onChange({ ...settings, [key]: value });
+  };
+
+  const updateResponsive = (patch: Partial<ResponsiveSettings>) => {
+    update('responsive', { ...settings.responsive, ...patch });
+  };
+
+  const toggleResponsiveFormat = (format: ConversionFormat) => {
+    const { formats } = settings.responsive;
+    const next = formats.includes(format) ? formats.filter((f) => f !== format) : [...formats, format];
+    if (next.length > 0) {
+      updateResponsive({ formats: next });
+    }
+  };
+
+  const updateMetadata = (patch: Partial<MetadataSettings>) => {
+    update('metadata', { ...settings.metadata, ...patch });
+  };
+
+  const updateSvg = (patch: Partial<SvgSettings>) => {
+    update('svg', { ...settings.svg, ...patch });
+  };
+
+  const toggleRasterFormat = (format: ConversionFormat) => {
+    const { rasterFormats } = settings.svg;
+    const next = rasterFormats.includes(format) ? rasterFormats.filter((f) => f !== format) : [...rasterFormats, format];
+    if (next.length > 0) {
+      updateSvg({ rasterFormats: next });
+    }
+  };
+
+  const updateWatermark = (patch: Partial<WatermarkSettings>) => {
+    update('watermark', { ...settings.watermark, ...patch });
+  };
+
+  const handleLogoInput = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file?.type.startsWith('image/')) return;
+    try {
+      updateWatermark({ logo: await readWatermarkLogo(file) });
+    } catch (error) {
+      console.error('Error reading watermark logo:', error);
+    }
+  };
+
+  const updateNumber = (key: 'targetSizeMB' | 'maxWidth' | 'maxHeight', raw: string) => {
+    const value = parseFloat(raw);
+    if (!Number.isNaN(value) && value > 0) {
+      update(key, value);
+    }
+  };
+
+  return (
+    <div className="animate-slide-up" onClick={(e) => e.stopPropagation()}>
+      <h3 className="text-base sm:text-lg font-bold text-slate-900 dark:text-white mb-4 sm:mb-6 tracking-tight">
+        {title}
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 sm:gap-6">
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>
+            <span className="flex justify-between">
+              <span>Quality</span>
+              <span className="text-slate-900 dark:text-white">{Math.round(settings.quality * 100)}%</span>
+            </span>
+          </label>
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.01}
+            value={settings.quality}
+            onChange={(e) => update('quality', parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>Quality search</label>
+          <ChoiceChips
+            options={QUALITY_SEARCH_MODES}
+            value={settings.qualitySearch}
+            onSelect={(qualitySearch) => update('qualitySearch', qualitySearch)}
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+            {QUALITY_SEARCH_DESCRIPTIONS[settings.qualitySearch]}, per image and per format. Each try is another full encode.
+          </p>
+        </div>
+
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>
+            <span className="flex justify-between">
+              <span>SSIM target (auto format floor and quality search)</span>
+              <span className="text-slate-900 dark:text-white">{settings.minSsim.toFixed(3)}</span>
+            </span>
+          </label>
+          <input
+            type="range"
+            min={0.8}
+            max={1}
+            step={0.005}
+            value={settings.minSsim}
+            onChange={(e) => update('minSsim', parseFloat(e.target.value))}
+            className="w-full accent-blue-500"
+          />
+        </div>
+
+        <div>
+          <label className={labelClassName}>Target size (MB)</label>
+          <input
+            type="number"
+            min={0.01}
+            step={0.1}
+            value={settings.targetSizeMB}
+            onChange={(e) => updateNumber('targetSizeMB', e.target.value)}
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClassName}>Max width</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.maxWidth}
+              onChange={(e) => updateNumber('maxWidth', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label className={labelClassName}>Max height</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.maxHeight}
+              onChange={(e) => updateNumber('maxHeight', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <Toggle
+          checked={settings.keepResolution}
+          onToggle={() => update('keepResolution', !settings.keepResolution)}
+          label="Keep resolution when shrinking to target size"
+        />
+
+        <Toggle
+          checked={settings.responsive.enabled}
+          onToggle={() => updateResponsive({ enabled: !settings.responsive.enabled })}
+          label="Generate a responsive image set (srcset)"
+        />
+
+        {settings.responsive.enabled && (
+          <>
+            <div>
+              <label className={labelClassName}>Widths (px)</label>
+              <input
+                key={settings.responsive.widths.join(',')}
+                type="text"
+                defaultValue={settings.responsive.widths.join(', ')}
+                onBlur={(e) => {
+                  const widths = parseWidths(e.target.value);
+                  if (widths.length > 0) updateResponsive({ widths });
+                }}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className={labelClassName}>Sizes attribute</label>
+              <input
+                type="text"
+                value={settings.responsive.sizes}
+                onChange={(e) => updateResponsive({ sizes: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="sm:col-span-2">
+              <label className={labelClassName}>Formats</label>
+              <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+                {CONVERSION_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => toggleResponsiveFormat(format)}
+                    className={`px-3 sm:px-4 py-2 rounded-lg sm:rounded-xl font-semibold text-xs sm:text-sm transition-all duration-300 ${
+                      settings.responsive.formats.includes(format)
+                        ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+                        : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+                    }`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>Metadata</label>
+          <ChoiceChips
+            options={METADATA_POLICIES}
+            value={settings.metadata.policy}
+            onSelect={(policy) => updateMetadata({ policy })}
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+            {METADATA_DESCRIPTIONS[settings.metadata.policy]}. Pixels are always rotated upright; AVIF output is always stripped.
+          </p>
+        </div>
+
+        {settings.metadata.policy === 'custom' && (
+          <>
+            <Toggle
+              checked={settings.metadata.orientation}
+              onToggle={() => updateMetadata({ orientation: !settings.metadata.orientation })}
+              label="Orientation tag"
+            />
+            <Toggle
+              checked={settings.metadata.icc}
+              onToggle={() => updateMetadata({ icc: !settings.metadata.icc })}
+              label="sRGB colour tag"
+            />
+            <Toggle
+              checked={settings.metadata.copyright}
+              onToggle={() => updateMetadata({ copyright: !settings.metadata.copyright })}
+              label="Copyright notice"
+            />
+          </>
+        )}
+
+        <div className="sm:col-span-2">
+          <RangeField
+            label="Animation frame rate cap (fps, 0 keeps every frame)"
+            value={settings.animation.maxFps}
+            min={0}
+            max={60}
+            onChange={(maxFps) => update('animation', { ...settings.animation, maxFps })}
+          />
+        </div>
+
+        <div className="sm:col-span-2">
+          <RangeField
+            label="SVG coordinate precision (decimals)"
+            value={settings.svg.precision}
+            min={0}
+            max={6}
+            onChange={(precision) => updateSvg({ precision })}
+          />
+        </div>
+
+        <Toggle
+          checked={settings.svg.multipass}
+          onToggle={() => updateSvg({ multipass: !settings.svg.multipass })}
+          label="Repeat SVG minification until it stops shrinking"
+        />
+
+        <Toggle
+          checked={settings.svg.rasterize}
+          onToggle={() => updateSvg({ rasterize: !settings.svg.rasterize })}
+          label="Also export SVGs as raster images"
+        />
+
+        {settings.svg.rasterize && (
+          <>
+            <div>
+              <label className={labelClassName}>Raster widths (px)</label>
+              <input
+                key={settings.svg.rasterWidths.join(',')}
+                type="text"
+                defaultValue={settings.svg.rasterWidths.join(', ')}
+                onBlur={(e) => {
+                  const rasterWidths = parseWidths(e.target.value);
+                  if (rasterWidths.length > 0) updateSvg({ rasterWidths });
+                }}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className={labelClassName}>Raster formats</label>
+              <div className="flex flex-wrap items-center gap-2">
+                {CONVERSION_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => toggleRasterFormat(format)}
+                    className={`px-3 py-1.5 rounded-lg font-semibold text-xs sm:text-sm transition-all duration-300 ${
+                      settings.svg.rasterFormats.includes(format)
+                        ? 'glass-intense bg-blue-500/80 text-white shadow-lg shadow-blue-500/25'
+                        : 'glass-subtle text-slate-700 dark:text-slate-300 hover:scale-102'
+                    }`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>Watermark</label>
+          <ChoiceChips
+            options={WATERMARK_KINDS}
+            value={settings.watermark.kind}
+            onSelect={(kind) => updateWatermark({ kind })}
+          />
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+            {WATERMARK_DESCRIPTIONS[settings.watermark.kind]}. SVGs kept as vectors are left unmarked.
+          </p>
+        </div>
+
+        {settings.watermark.kind !== 'none' && (
+          <>
+            {settings.watermark.kind === 'text' ? (
+              <div className="grid grid-cols-[1fr_auto] gap-3">
+                <div>
+                  <label className={labelClassName}>Text</label>
+                  <input
+                    type="text"
+                    value={settings.watermark.text}
+                    onChange={(e) => updateWatermark({ text: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className={labelClassName}>Colour</label>
+                  <input
+                    type="color"
+                    value={settings.watermark.color}
+                    onChange={(e) => updateWatermark({ color: e.target.value })}
+                    className="w-16 h-10 rounded-lg bg-transparent"
+                  />
+                </div>
+              </div>
+            ) : (
+              <div>
+                <label className={labelClassName}>Logo</label>
+                <label className="glass-subtle rounded-lg px-3 py-2 flex items-center gap-3 cursor-pointer text-sm font-semibold text-slate-700 dark:text-slate-300">
+                  <input type="file" accept="image/*" className="hidden" onChange={handleLogoInput} />
+                  {settings.watermark.logo && (
+                    <img src={settings.watermark.logo} alt="" className="w-8 h-8 object-contain" />
+                  )}
+                  {settings.watermark.logo ? 'Replace logo' : 'Choose a logo (PNG or SVG with transparency)'}
+                </label>
+              </div>
+            )}
+
+            <div>
+              <label className={labelClassName}>Position</label>
+              <div className={`grid grid-cols-3 gap-1 w-28 ${settings.watermark.tiled ? 'opacity-50 pointer-events-none' : ''}`}>
+                {WATERMARK_POSITIONS.map((position) => (
+                  <button
+                    key={position}
+                    title={position}
+                    onClick={() => updateWatermark({ position })}
+                    className={`h-8 rounded-md transition-all duration-300 ${
+                      settings.watermark.position === position
+                        ? 'glass-intense bg-blue-500/80 shadow-lg shadow-blue-500/25'
+                        : 'glass-subtle hover:scale-102'
+                    }`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClassName}>
+                <span className="flex justify-between">
+                  <span>Size (share of image width)</span>
+                  <span className="text-slate-900 dark:text-white">{Math.round(settings.watermark.scale * 100)}%</span>
+                </span>
+              </label>
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.01}
+                value={settings.watermark.scale}
+                onChange={(e) => updateWatermark({ scale: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className={labelClassName}>
+                <span className="flex justify-between">
+                  <span>Opacity</span>
+                  <span className="text-slate-900 dark:text-white">{Math.round(settings.watermark.opacity * 100)}%</span>
+                </span>
+              </label>
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={settings.watermark.opacity}
+                onChange={(e) => updateWatermark({ opacity: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className={labelClassName}>
+                <span className="flex justify-between">
+                  <span>Margin</span>
+                  <span className="text-slate-900 dark:text-white">{Math.round(settings.watermark.margin * 100)}%</span>
+                </span>
+              </label>
+              <input
+                type="range"
+                min={0}
+                max={0.2}
+                step={0.01}
+                value={settings.watermark.margin}
+                onChange={(e) => updateWatermark({ margin: parseFloat(e.target.value) })}
+                className="w-full accent-blue-500"
+              />
+            </div>
+
+            <Toggle
+              checked={settings.watermark.tiled}
+              onToggle={() => updateWatermark({ tiled: !settings.watermark.tiled })}
+              label="Repeat across the whole image"
+            />
+
+            <div className="sm:col-span-2">
+              <WatermarkPreview watermark={settings.watermark} file={previewImage} />
+            </div>
+          </>
+        )}
+
+        <div className="sm:col-span-2">
+          <label className={labelClassName}>Encoders</label>
+          <EncoderFields codecs={settings.codecs} onChange={(codecs) => update('codecs', codecs)} />
+        </div>
+
+        {showBudgets && (
+          <div className="sm:col-span-2">
+            <label className={labelClassName}>Size budgets</label>
+            <textarea
+              key={settings.budgets.map(formatBudgetRule).join('\n')}
+              rows={3}
+              placeholder={'* 200KB\nhero-* 400KB @1920w'}
+              defaultValue={settings.budgets.map(formatBudgetRule).join('\n')}
+              onBlur={(e) => update('budgets', parseBudgetRules(e.target.value))}
+              className={`${inputClassName} font-mono resize-y`}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+              One rule per line: file name pattern, size limit, and optionally the output width it applies to.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {children && (
+        <div className="flex flex-wrap items-center justify-end gap-2 sm:gap-3 mt-6">
+          {children}
+        </div>
+      )}
+    </div>
+  );
+};
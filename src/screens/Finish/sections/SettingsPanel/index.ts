@@ -0,0 +1 @@
+export { SettingsPanel } from "./SettingsPanel";
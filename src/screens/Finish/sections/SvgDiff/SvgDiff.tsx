@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { DiffLine, diffLines } from "../../../../lib/diff";
+import { formatSvg } from "../../../../lib/svg";
+
+interface SvgDiffProps {
+  original: Blob;
+  optimized: Blob;
+}
+
+const lineClassName: Record<DiffLine['type'], string> = {
+  same: 'text-slate-600 dark:text-slate-400',
+  added: 'bg-green-200/50 dark:bg-green-600/30 text-green-900 dark:text-green-200',
+  removed: 'bg-red-200/50 dark:bg-red-600/30 text-red-900 dark:text-red-200',
+};
+
+const linePrefix: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+export const SvgDiff = ({ original, optimized }: SvgDiffProps): JSX.Element => {
+  const [lines, setLines] = useState<DiffLine[] | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([original.text(), optimized.text()])
+      // Both sides are pretty-printed the same way, so only real changes show up
+      .then(([before, after]) => Promise.all([formatSvg(before), formatSvg(after)]))
+      .then(([before, after]) => {
+        if (!cancelled) setLines(diffLines(before, after));
+      })
+      .catch((error) => {
+        console.error('Error diffing SVG markup:', error);
+        if (!cancelled) setLines(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [original, optimized]);
+
+  if (lines === undefined) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">Comparing markup...</p>;
+  }
+  if (lines === null) {
+    return <p className="text-xs text-slate-500 dark:text-slate-400">This file is too large to diff.</p>;
+  }
+
+  const added = lines.filter(({ type }) => type === 'added').length;
+  const removed = lines.filter(({ type }) => type === 'removed').length;
+
+  return (
+    <div>
+      <p className="text-xs font-semibold text-slate-600 dark:text-slate-400 mb-2">
+        <span className="text-green-600 dark:text-green-400">+{added}</span>{' '}
+        <span className="text-red-600 dark:text-red-400">-{removed}</span> lines
+      </p>
+      <pre className="glass-subtle rounded-lg p-3 max-h-80 overflow-auto text-[11px] sm:text-xs leading-relaxed font-mono">
+        {lines.map((line, index) => (
+          <div key={index} className={`whitespace-pre ${lineClassName[line.type]}`}>
+            {linePrefix[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { SvgDiff } from "./SvgDiff";
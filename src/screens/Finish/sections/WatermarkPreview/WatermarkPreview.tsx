@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from "react";
+import { WatermarkSettings, drawWatermark, loadWatermarkLogo } from "../../../../lib/watermark";
+
+interface WatermarkPreviewProps {
+  watermark: WatermarkSettings;
+  // Without an image the overlay is drawn on a placeholder of the same shape as a typical photo
+  file?: Blob;
+}
+
+const PREVIEW_SIZE = 480;
+const PLACEHOLDER_WIDTH = 480;
+const PLACEHOLDER_HEIGHT = 320;
+
+export const WatermarkPreview = ({ watermark, file }: WatermarkPreviewProps): JSX.Element => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [logo, setLogo] = useState<ImageBitmap | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setBitmap(null);
+      return;
+    }
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    createImageBitmap(file, { imageOrientation: 'from-image' })
+      .then((result) => {
+        loaded = result;
+        if (cancelled) result.close();
+        else setBitmap(result);
+      })
+      .catch((error) => console.error('Error loading watermark preview:', error));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [file]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadWatermarkLogo(watermark)
+      .then((result) => {
+        loaded = result;
+        if (cancelled) result?.close();
+        else setLogo(result);
+      })
+      .catch((error) => console.error('Error loading watermark logo:', error));
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [watermark.kind, watermark.logo]);
+
+  // Sizes in the settings are relative to the image, so a scaled-down preview matches the output
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const width = bitmap?.width ?? PLACEHOLDER_WIDTH;
+    const height = bitmap?.height ?? PLACEHOLDER_HEIGHT;
+    const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    if (bitmap) {
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    } else {
+      const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+      gradient.addColorStop(0, '#3b82f6');
+      gradient.addColorStop(1, '#ec4899');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    drawWatermark(ctx, canvas.width, canvas.height, watermark, logo);
+  }, [bitmap, logo, watermark]);
+
+  return (
+    <canvas ref={canvasRef} className="block max-w-full h-auto mx-auto rounded-lg shadow-lg" />
+  );
+};
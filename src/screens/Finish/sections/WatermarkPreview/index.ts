@@ -0,0 +1 @@
+export { WatermarkPreview } from "./WatermarkPreview";
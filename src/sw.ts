@@ -0,0 +1,44 @@
+import { PrecacheEntry, cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from "workbox-precaching";
+import { NavigationRoute, registerRoute } from "workbox-routing";
+import { SHARE_CACHE, SHARE_TARGET_PATH } from "./lib/launch";
+
+// The app is type-checked against the DOM lib, so describe the service worker scope locally
+interface ShareFetchEvent extends Event {
+  request: Request;
+  respondWith(response: Promise<Response>): void;
+}
+
+interface ServiceWorkerScope {
+  __WB_MANIFEST: (PrecacheEntry | string)[];
+  registration: ServiceWorkerRegistration;
+  addEventListener(type: 'fetch', listener: (event: ShareFetchEvent) => void): void;
+}
+
+declare const self: ServiceWorkerScope;
+
+// App shell, fonts and every codec .wasm are precached at install, so the app works offline
+cleanupOutdatedCaches();
+precacheAndRoute(self.__WB_MANIFEST);
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html')));
+
+// Web Share Target: park the shared files in a cache, then hand over to the page via a redirect
+const receiveSharedFiles = async (request: Request): Promise<Response> => {
+  const formData = await request.formData();
+  const cache = await caches.open(SHARE_CACHE);
+  const files = formData.getAll('images').filter((entry): entry is File => entry instanceof File);
+
+  await Promise.all(files.map((file, index) =>
+    cache.put(`${SHARE_TARGET_PATH}/${index}`, new Response(file, {
+      headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name) },
+    }))
+  ));
+
+  return Response.redirect(new URL('./?shared=1', self.registration.scope).href, 303);
+};
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method === 'POST' && url.pathname.endsWith(SHARE_TARGET_PATH)) {
+    event.respondWith(receiveSharedFiles(event.request));
+  }
+});
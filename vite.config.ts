@@ -1,14 +1,81 @@
 import react from "@vitejs/plugin-react";
 import tailwind from "tailwindcss";
 import { defineConfig } from "vite";
+import { VitePWA } from "vite-plugin-pwa";
+import { smollr } from "./src/node/vite-plugin";
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    smollr(),
+    VitePWA({
+      strategies: "injectManifest",
+      srcDir: "src",
+      filename: "sw.ts",
+      injectRegister: false,
+      injectManifest: {
+        globPatterns: ["**/*.{js,css,html,wasm,woff2,png,svg}"],
+        // The AVIF encoder alone is ~3.5 MB
+        maximumFileSizeToCacheInBytes: 8 * 1024 * 1024,
+      },
+      manifest: {
+        id: "./",
+        name: "smollr",
+        short_name: "smollr",
+        description: "Smart AVIF, WebP, PNG and JPEG Compression for Faster Websites",
+        start_url: "./",
+        scope: "./",
+        display: "standalone",
+        theme_color: "#ffffff",
+        background_color: "#ffffff",
+        icons: [
+          { src: "android-chrome-192x192.png", sizes: "192x192", type: "image/png" },
+          { src: "android-chrome-512x512.png", sizes: "512x512", type: "image/png" },
+        ],
+        file_handlers: [
+          {
+            action: "./",
+            accept: {
+              "image/png": [".png"],
+              "image/jpeg": [".jpg", ".jpeg"],
+              "image/webp": [".webp"],
+              "image/avif": [".avif"],
+              "image/gif": [".gif"],
+              "image/svg+xml": [".svg"],
+              "image/heic": [".heic", ".heif"],
+              "image/tiff": [".tif", ".tiff"],
+              "image/bmp": [".bmp"],
+              "image/x-icon": [".ico"],
+              "image/jxl": [".jxl"],
+            },
+          },
+        ],
+        share_target: {
+          action: "./share-target",
+          method: "POST",
+          enctype: "multipart/form-data",
+          params: {
+            files: [{ name: "images", accept: ["image/*"] }],
+          },
+        },
+        launch_handler: {
+          client_mode: "focus-existing",
+        },
+      },
+    }),
+  ],
   base: "./",
   css: {
     postcss: {
       plugins: [tailwind()],
     },
   },
+  // The codecs locate their .wasm files via import.meta.url, which pre-bundling breaks
+  optimizeDeps: {
+    exclude: ["@jsquash/avif", "@jsquash/jpeg", "@jsquash/webp", "@jsquash/oxipng", "@jsquash/jxl", "libheif-js", "libimagequant-wasm"],
+  },
+  worker: {
+    format: "es",
+  },
 });